@@ -0,0 +1,551 @@
+#!/usr/bin/env node
+/**
+ * usb-tree-win command line interface
+ * Subcommands for scripts: tree, com, table, find, resolve, query, graph, validate, benchmark, serve, lease - with text, JSON or CSV output
+ */
+
+import {
+    buildUSBTree, printUSBTree, getComPortList, getDeviceTable, getDeviceByPortChain,
+    readReplayFile, createReplayRunner, USBTree, USBDevice, BuildUSBTreeOptions,
+} from './usb-tree';
+import { runBenchmark, formatBenchmarkReport, BenchmarkBackend } from './usb-benchmark';
+import { USBTreeServer } from './usb-server';
+import { LeaseManager, LeaseRecord } from './usb-lease';
+import { toDot, toMermaid } from './usb-graph';
+import { renderTable, renderCsv, renderMarkdownTable, renderHtmlTable, renderHtmlReport, RenderColumn, TreeStyle } from './usb-render';
+import { serializeUSBTree, toDeviceRecord } from './usb-tree-snapshot';
+import { query, pruneUSBTree, SelectorError } from './usb-query';
+import { configureDeviceNames } from './usb-ids';
+import { AliasRegistry, AliasError } from './usb-aliases';
+import { loadManifest, validateTopology, formatManifestReport, TopologyManifest, ManifestError } from './usb-manifest';
+import { USBTreeError } from './usb-errors';
+
+// Exit codes
+export const EXIT_OK = 0;
+export const EXIT_ERROR = 1;           // Enumeration failed
+export const EXIT_USAGE = 2;           // Bad command line
+export const EXIT_NOT_FOUND = 3;       // No matching device / COM port
+export const EXIT_AMBIGUOUS = 4;       // Alias matches more than one device
+export const EXIT_INCONSISTENT = 5;    // benchmark: backends failed, were unstable or disagree
+export const EXIT_TOPOLOGY = 6;        // validate: tree doesn't match the manifest
+
+type OutputFormat = 'text' | 'json' | 'csv' | 'markdown' | 'html';
+
+const RENDER_COLUMNS: RenderColumn[] = ['vidPid', 'vid', 'pid', 'name', 'serial', 'com', 'kernelName', 'chain', 'hub', 'status', 'driver'];
+
+interface CliOptions {
+    command: string;
+    args: string[];
+    format: OutputFormat;
+    slow: boolean;
+    problems: boolean;
+    disconnected: boolean;
+    prune: boolean;
+    names: string[];
+    usbIds?: string;
+    aliases?: string;
+    replay?: string;
+    chain?: string;
+    vid?: string;
+    pid?: string;
+    serial?: string;
+    iterations?: number;
+    port?: number;
+    host?: string;
+    interval?: number;
+    leaseDir?: string;
+    backends?: BenchmarkBackend[];
+    style: TreeStyle;
+    columns?: RenderColumn[];
+}
+
+class UsageError extends Error { }
+
+const USAGE = `Usage: usb-tree-win [command] [options]
+
+Commands:
+  (none)                    Print tree, COM port list and device table
+  tree                      Print the USB device tree
+  com                       List COM ports
+  table                     List all devices
+  find --chain <chain>      Find the device on a port chain (e.g. 1-1-3)
+  find --vid <vid> [--pid <pid>]
+  find --serial <serial>
+  resolve <port|alias>      Find the device behind a COM port (e.g. COM27) or alias
+  aliases                   List aliases and the devices they resolve to (needs --aliases)
+  query <selector>          Find devices by rule, e.g. "vid=0403 chain=2-*-2 role=Serial"
+  graph [dot|mermaid]       Topology diagram (Graphviz DOT by default); --chain limits it to a subtree
+  validate <manifest.json>  Check the tree against an expected-topology manifest
+  benchmark                 Time each backend and check that they return the same tree
+  serve                     HTTP service: /tree, /devices, /com, /query and an /events stream (SSE)
+  lease list                Devices leased by test workers (owner, port chain, COM port, expiry)
+
+Options:
+  --json                    Machine-readable JSON output
+  --csv                     CSV output (com, table, find, resolve, query)
+  --markdown                Markdown table output (com, table, find, resolve, query)
+  --html                    Self-contained HTML report (report, tree) or HTML table (lists)
+  --unicode                 Draw the tree with Unicode box-drawing characters
+  --columns <list>          Table/CSV/Markdown/HTML columns, comma-separated:
+                            vidPid,vid,pid,name,serial,com,kernelName,chain,hub,status,driver
+  --slow                    Force the PowerShell CIM/WMI path (skip pnputil)
+  --problems                Include devices that failed to start (Code 43, missing driver, disabled)
+  --disconnected            Include previously seen devices with their last COM ports (tree, find, resolve)
+  --prune                   query: print the tree reduced to matches and their ancestors
+  --replay <file>           Build the tree from recorded enumeration output
+  --usb-ids <file>          Resolve vendor/product names from a usb.ids file
+  --names <file>            JSON name overrides (repeatable, later files win)
+  --aliases <file>          JSON alias config; aliases are shown in the tree
+  --iterations <n>          benchmark: timed runs per backend (default 5)
+  --backend <list>          benchmark: comma-separated pnputil,powershell,sysfs (first = reference)
+  --port <n>                serve: TCP port (default 8765)
+  --host <address>          serve: bind address (default 127.0.0.1)
+  --interval <ms>           serve: re-enumeration interval (default 2000)
+  --lease-dir <dir>         lease: lock directory shared by the workers (default: <tmp>/usb-tree-win-leases)
+  -h, --help                Show this help
+
+Exit codes: 0 = ok, 1 = enumeration error, 2 = usage error, 3 = no matching device,
+            4 = alias matches several devices, 5 = benchmark found failing or inconsistent backends,
+            6 = validate found missing, unexpected or misplaced devices`;
+
+function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = { command: '', args: [], format: 'text', slow: false, problems: false, disconnected: false, prune: false, names: [], style: 'ascii' };
+
+    const value = (i: number, flag: string): string => {
+        const v = argv[i + 1];
+        if (v === undefined || v.startsWith('--')) {
+            throw new UsageError(`Missing value for ${flag}`);
+        }
+        return v;
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '--json': options.format = 'json'; break;
+            case '--csv': options.format = 'csv'; break;
+            case '--markdown': options.format = 'markdown'; break;
+            case '--html': options.format = 'html'; break;
+            case '--unicode': options.style = 'unicode'; break;
+            case '--columns': {
+                const columns = value(i, arg).split(',').map(c => c.trim());
+                const unknown = columns.filter(c => !RENDER_COLUMNS.includes(c as RenderColumn));
+                if (unknown.length > 0) throw new UsageError(`Unknown column: ${unknown.join(', ')} (known: ${RENDER_COLUMNS.join(', ')})`);
+                options.columns = columns as RenderColumn[];
+                i++;
+                break;
+            }
+            case '--slow': options.slow = true; break;
+            case '--problems': options.problems = true; break;
+            case '--disconnected': options.disconnected = true; break;
+            case '--prune': options.prune = true; break;
+            case '--replay': options.replay = value(i, arg); i++; break;
+            case '--usb-ids': options.usbIds = value(i, arg); i++; break;
+            case '--names': options.names.push(value(i, arg)); i++; break;
+            case '--aliases': options.aliases = value(i, arg); i++; break;
+            case '--chain': options.chain = value(i, arg); i++; break;
+            case '--vid': options.vid = value(i, arg).toUpperCase(); i++; break;
+            case '--pid': options.pid = value(i, arg).toUpperCase(); i++; break;
+            case '--serial': options.serial = value(i, arg); i++; break;
+            case '--iterations':
+            case '--interval':
+            case '--port': {
+                const n = parseInt(value(i, arg));
+                if (isNaN(n) || n < (arg === '--port' ? 0 : 1)) throw new UsageError(`Invalid value for ${arg}: ${argv[i + 1]}`);
+                options[arg.slice(2) as 'iterations' | 'interval' | 'port'] = n;
+                i++;
+                break;
+            }
+            case '--host': options.host = value(i, arg); i++; break;
+            case '--lease-dir': options.leaseDir = value(i, arg); i++; break;
+            case '--backend': {
+                const backends = value(i, arg).split(',').map(b => b.trim().toLowerCase());
+                const unknown = backends.filter(b => !['pnputil', 'powershell', 'sysfs'].includes(b));
+                if (unknown.length > 0) throw new UsageError(`Unknown backend: ${unknown.join(', ')}`);
+                options.backends = backends as BenchmarkBackend[];
+                i++;
+                break;
+            }
+            case '-h':
+            case '--help': options.command = 'help'; break;
+            default:
+                if (arg.startsWith('-')) {
+                    throw new UsageError(`Unknown option: ${arg}`);
+                }
+                if (!options.command) {
+                    options.command = arg;
+                } else {
+                    options.args.push(arg);
+                }
+        }
+    }
+
+    return options;
+}
+
+// "Connected Devices Only", or what --problems / --disconnected added to the report
+function reportScope(options: CliOptions): string {
+    const extras = [options.problems ? 'Problem Devices' : '', options.disconnected ? 'Disconnected Devices' : ''].filter(Boolean);
+    return extras.length > 0 ? `Connected Devices, ${extras.join(' and ')}` : 'Connected Devices Only';
+}
+
+function printComPorts(comPorts: USBDevice[]): void {
+    if (comPorts.length > 0) {
+        for (const dev of comPorts) {
+            const comInfo = dev.comPorts[0];
+            const label = comInfo.role || comInfo.channelName;
+            const role = label ? ` (${label})` : '';
+            const serial = dev.serialNumber ? ` [S/N: ${dev.serialNumber}]` : '';
+            const kernel = dev.kernelName ? ` [Kernel: ${dev.kernelName}]` : '';
+            const where = dev.present === false ? `[Disconnected${dev.lastRemoval ? `, removed ${dev.lastRemoval}` : ''}]` : `[Chain: ${dev.portChain}]`;
+            console.log(`  ${comInfo.port}: ${dev.name}${serial}${kernel} ${where}${role}`);
+        }
+    } else {
+        console.log('  No COM ports found');
+    }
+}
+
+function output(devices: USBDevice[], options: CliOptions, printText: (devices: USBDevice[], options: CliOptions) => void): void {
+    const columns = options.columns;
+    switch (options.format) {
+        case 'json': console.log(JSON.stringify(devices.map(toDeviceRecord), null, 2)); break;
+        case 'csv': console.log(renderCsv(devices, { columns })); break;
+        case 'markdown': console.log(renderMarkdownTable(devices, { columns })); break;
+        case 'html': console.log(renderHtmlTable(devices, { columns })); break;
+        default: printText(devices, options);
+    }
+}
+
+function printTable(devices: USBDevice[], options: CliOptions): void {
+    console.log(renderTable(devices, { columns: options.columns }));
+}
+
+function findDevices(tree: USBTree, options: CliOptions): USBDevice[] {
+    if (options.chain) {
+        const dev = getDeviceByPortChain(tree, options.chain);
+        return dev ? [dev] : [];
+    }
+    // Disconnected devices (--disconnected) come after the connected ones
+    const devices = [...getDeviceTable(tree), ...(tree.disconnected || [])];
+    if (options.vid || options.pid) {
+        return devices.filter(dev =>
+            (!options.vid || dev.vid === options.vid) && (!options.pid || dev.pid === options.pid));
+    }
+    if (options.serial) {
+        return devices.filter(dev => dev.serialNumber.toUpperCase() === options.serial!.toUpperCase());
+    }
+    throw new UsageError('find needs --chain, --vid/--pid or --serial');
+}
+
+function resolvePort(tree: USBTree, port: string): USBDevice | undefined {
+    const candidates = [port, port.toUpperCase(), `/dev/${port}`];
+    for (const candidate of candidates) {
+        const entry = tree.comPortMap.get(candidate);
+        if (entry) return entry.device;
+    }
+    // Last owner of the port among disconnected devices, reduced to that port
+    for (const dev of tree.disconnected || []) {
+        const comInfo = dev.comPorts.find(c => candidates.includes(c.port));
+        if (comInfo) return { ...dev, comPorts: [comInfo] };
+    }
+    return undefined;
+}
+
+/**
+ * Run the CLI and return the process exit code
+ */
+export function runCli(argv: string[]): number {
+    let options: CliOptions;
+    try {
+        options = parseArgs(argv);
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        console.error(USAGE);
+        return EXIT_USAGE;
+    }
+
+    if (options.command === 'help') {
+        console.log(USAGE);
+        return EXIT_OK;
+    }
+
+    const knownCommands = ['', 'tree', 'com', 'table', 'find', 'resolve', 'query', 'aliases', 'graph', 'validate', 'benchmark', 'serve', 'lease'];
+    if (!knownCommands.includes(options.command)) {
+        console.error(`Unknown command: ${options.command}`);
+        console.error(USAGE);
+        return EXIT_USAGE;
+    }
+    if (options.command === 'graph' && !['dot', 'mermaid'].includes(options.args[0] || 'dot')) {
+        console.error(`Unknown graph format: ${options.args[0]} (dot or mermaid)`);
+        return EXIT_USAGE;
+    }
+    if (options.command === 'lease' && options.args[0] !== 'list') {
+        console.error('Unknown lease command (lease list)');
+        return EXIT_USAGE;
+    }
+    if (options.command === 'resolve' && options.args.length !== 1) {
+        console.error('resolve needs exactly one COM port, e.g. "resolve COM27"');
+        return EXIT_USAGE;
+    }
+    if (options.command === 'validate' && options.args.length !== 1) {
+        console.error('validate needs exactly one manifest file, e.g. "validate rig.json"');
+        return EXIT_USAGE;
+    }
+
+    if (options.usbIds || options.names.length > 0) {
+        try {
+            configureDeviceNames({ usbIdsPath: options.usbIds, overrides: options.names });
+        } catch (error) {
+            console.error(error instanceof Error ? error.message : error);
+            return EXIT_USAGE;
+        }
+    }
+
+    let aliases: AliasRegistry | undefined;
+    if (options.aliases) {
+        try {
+            aliases = AliasRegistry.load(options.aliases);
+        } catch (error) {
+            // Read/JSON errors name the file already, selector errors only the alias
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(error instanceof SelectorError ? `Invalid alias in ${options.aliases}: ${message}` : message);
+            return EXIT_USAGE;
+        }
+    } else if (options.command === 'aliases') {
+        console.error('aliases needs --aliases <file>');
+        return EXIT_USAGE;
+    }
+
+    // Load the manifest before enumerating, so a broken manifest is a usage error, not a failed check
+    let manifest: TopologyManifest | undefined;
+    if (options.command === 'validate') {
+        try {
+            manifest = loadManifest(options.args[0]);
+        } catch (error) {
+            console.error(error instanceof ManifestError ? error.message : error);
+            return EXIT_USAGE;
+        }
+    }
+
+    if (options.command === 'benchmark') {
+        // Enumerates on its own - each backend directly, several times
+        try {
+            const report = runBenchmark({
+                iterations: options.iterations,
+                backends: options.backends,
+                runner: options.replay ? createReplayRunner(readReplayFile(options.replay)) : undefined,
+            });
+            console.log(options.format === 'json' ? JSON.stringify(report, null, 2) : formatBenchmarkReport(report));
+            return report.ok ? EXIT_OK : EXIT_INCONSISTENT;
+        } catch (error) {
+            console.error('Benchmark failed:', error instanceof Error ? error.message : error);
+            return EXIT_ERROR;
+        }
+    }
+
+    if (options.command === 'lease') {
+        // Reads the lock files only - stale leases of crashed workers are removed on the way
+        let leases: LeaseRecord[];
+        try {
+            leases = new LeaseManager({ dir: options.leaseDir }).list();
+        } catch (error) {
+            console.error('Cannot list leases:', error instanceof Error ? error.message : error);
+            return EXIT_ERROR;
+        }
+        if (options.format === 'json') {
+            console.log(JSON.stringify(leases, null, 2));
+        } else if (leases.length === 0) {
+            console.log('  No active leases');
+        } else {
+            for (const l of leases) {
+                console.log(`  [${l.portChain}] ${l.name}${l.comPort ? ` - ${l.comPort}` : ''}: ${l.owner} (pid ${l.processId} on ${l.host}) until ${l.expiresAt}`);
+            }
+        }
+        return EXIT_OK;
+    }
+
+    if (options.command === 'serve') {
+        // Keeps the process alive until interrupted; startup failures set the exit code asynchronously
+        let server: USBTreeServer;
+        try {
+            server = new USBTreeServer({
+                port: options.port,
+                host: options.host,
+                refreshInterval: options.interval,
+                watcher: {
+                    buildOptions: {
+                        useSlowPath: options.slow,
+                        includeProblemDevices: options.problems,
+                        includeDisconnected: options.disconnected,
+                        replay: options.replay ? readReplayFile(options.replay) : undefined,
+                    },
+                },
+            });
+        } catch (error) {
+            console.error('Cannot start server:', error instanceof Error ? error.message : error);
+            return EXIT_ERROR;
+        }
+        server.start().then(
+            url => console.log(`Serving the USB tree on ${url} (GET /tree, /devices, /com, /query, /events)`),
+            error => {
+                console.error('Cannot start server:', error instanceof Error ? error.message : error);
+                process.exitCode = EXIT_ERROR;
+            }
+        );
+        return EXIT_OK;
+    }
+
+    let tree: USBTree;
+    try {
+        const buildOptions: BuildUSBTreeOptions = {
+            useSlowPath: options.slow,
+            includeProblemDevices: options.problems,
+            includeDisconnected: options.disconnected,
+        };
+        if (options.replay) {
+            buildOptions.replay = readReplayFile(options.replay);
+        }
+        tree = buildUSBTree(buildOptions);
+    } catch (error) {
+        console.error('Error enumerating USB devices:', error instanceof Error ? error.message : error);
+        if (error instanceof USBTreeError && error.attempts && error.attempts.length > 1) {
+            for (const attempt of error.attempts) {
+                console.error(`  ${attempt.backend}: ${attempt.error ? attempt.error.message : 'ok'}`);
+            }
+        }
+        return EXIT_ERROR;
+    }
+
+    try {
+        switch (options.command) {
+            case '':
+                if (options.format === 'html') {
+                    console.log(renderHtmlReport(tree, { aliases, columns: options.columns }));
+                    return EXIT_OK;
+                }
+                console.log(`=== USB Tree Enumeration (${reportScope(options)}) ===\n`);
+                printUSBTree(tree, { aliases, style: options.style });
+                console.log('--- COM Ports ---');
+                printComPorts(getComPortList(tree));
+                console.log('');
+                console.log('--- Device Table ---');
+                printTable(getDeviceTable(tree), options);
+                return EXIT_OK;
+
+            case 'tree':
+                if (options.format === 'json') {
+                    console.log(JSON.stringify(serializeUSBTree(tree), null, 2));
+                } else if (options.format === 'html') {
+                    console.log(renderHtmlReport(tree, { aliases, columns: options.columns }));
+                } else {
+                    printUSBTree(tree, { aliases, style: options.style });
+                }
+                return EXIT_OK;
+
+            case 'com':
+                output(getComPortList(tree), options, printComPorts);
+                return EXIT_OK;
+
+            case 'table':
+                output(getDeviceTable(tree), options, printTable);
+                return EXIT_OK;
+
+            case 'find': {
+                const devices = findDevices(tree, options);
+                if (devices.length === 0) {
+                    console.error('No matching device');
+                    return EXIT_NOT_FOUND;
+                }
+                output(devices, options, printTable);
+                return EXIT_OK;
+            }
+
+            case 'resolve': {
+                if (aliases?.get(options.args[0])) {
+                    const { device } = aliases.resolve(tree, options.args[0]);
+                    output([device], options, device.comPorts.length > 0 ? printComPorts : printTable);
+                    return EXIT_OK;
+                }
+
+                const dev = resolvePort(tree, options.args[0]);
+                if (!dev) {
+                    console.error(`No device found for ${options.args[0]}`);
+                    return EXIT_NOT_FOUND;
+                }
+                output([dev], options, printComPorts);
+                return EXIT_OK;
+            }
+
+            case 'query': {
+                const selector = options.args.join(' ');
+                const devices = query(tree, selector);
+                if (devices.length === 0) {
+                    console.error('No matching device');
+                    return EXIT_NOT_FOUND;
+                }
+                if (options.prune && options.format === 'json') {
+                    console.log(JSON.stringify(serializeUSBTree(pruneUSBTree(tree, selector)), null, 2));
+                } else if (options.prune) {
+                    printUSBTree(pruneUSBTree(tree, selector), { aliases, style: options.style });
+                } else {
+                    output(devices, options, printTable);
+                }
+                return EXIT_OK;
+            }
+
+            case 'graph': {
+                if (options.chain && !getDeviceByPortChain(tree, options.chain)) {
+                    console.error(`No device on port chain ${options.chain}`);
+                    return EXIT_NOT_FOUND;
+                }
+                const graphOptions = { prefix: options.chain };
+                console.log(options.args[0] === 'mermaid' ? toMermaid(tree, graphOptions) : toDot(tree, graphOptions));
+                return EXIT_OK;
+            }
+
+            case 'validate': {
+                const report = validateTopology(tree, manifest!);
+                console.log(options.format === 'json' ? JSON.stringify(report, null, 2) : formatManifestReport(report));
+                return report.ok ? EXIT_OK : EXIT_TOPOLOGY;
+            }
+
+            case 'aliases': {
+                const results = aliases!.names().map(name => {
+                    try {
+                        const { device, comPort } = aliases!.resolve(tree, name);
+                        return { alias: name, portChain: device.portChain, comPort: comPort?.port || null, name: device.name, error: null };
+                    } catch (error) {
+                        return { alias: name, portChain: null, comPort: null, name: null, error: error instanceof Error ? error.message : String(error) };
+                    }
+                });
+                if (options.format === 'json') {
+                    console.log(JSON.stringify(results, null, 2));
+                } else {
+                    for (const r of results) {
+                        console.log(r.error
+                            ? `  ${r.alias}: ${r.error}`
+                            : `  ${r.alias}: [${r.portChain}] ${r.name}${r.comPort ? ` - ${r.comPort}` : ''}`);
+                    }
+                }
+                return results.every(r => !r.error) ? EXIT_OK : EXIT_NOT_FOUND;
+            }
+        }
+    } catch (error) {
+        if (error instanceof AliasError) {
+            console.error(error.message);
+            return error.reason === 'ambiguous' ? EXIT_AMBIGUOUS : EXIT_NOT_FOUND;
+        }
+        if (error instanceof UsageError || error instanceof SelectorError) {
+            console.error(error.message);
+            return EXIT_USAGE;
+        }
+        throw error;
+    }
+
+    return EXIT_OK;
+}
+
+// Run if executed directly
+if (require.main === module) {
+    process.exitCode = runCli(process.argv.slice(2));
+}
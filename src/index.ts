@@ -4,63 +4,74 @@
  */
 
 import { buildUSBTree, printUSBTree, getComPortList, getDeviceTable, getDeviceByPortChain, getDevicesByPortChainPrefix, USBTree, USBDevice, ComPortInfo } from './usb-tree';
+import { runCli } from './cli';
 
-function main() {
-    console.log('=== USB Tree Enumeration (Connected Devices Only) ===\n');
-
-    try {
-        const tree = buildUSBTree();
-
-        // Print tree
-        printUSBTree(tree);
-
-        // Print COM ports
-        console.log('--- COM Ports ---');
-        const comPorts = getComPortList(tree);
-        if (comPorts.length > 0) {
-            for (const dev of comPorts) {
-                const comInfo = dev.comPorts[0];
-                const role = comInfo.role ? ` (${comInfo.role})` : '';
-                const serial = dev.serialNumber ? ` [S/N: ${dev.serialNumber}]` : '';
-                const kernel = dev.kernelName ? ` [Kernel: ${dev.kernelName}]` : '';
-                console.log(`  ${comInfo.port}: ${dev.name}${serial}${kernel} [Chain: ${dev.portChain}]${role}`);
-            }
-        } else {
-            console.log('  No COM ports found');
-        }
-        console.log('');
-
-        // Print device table
-        console.log('--- Device Table ---');
-        const table = getDeviceTable(tree);
-        console.log('VID:PID    | Name                                     | Serial           | COM Ports        | Port Chain');
-        console.log('-'.repeat(105));
-        for (const dev of table) {
-            const vidPid = `${dev.vid}:${dev.pid}`.padEnd(10);
-            const name = dev.name.substring(0, 40).padEnd(40);
-            const serial = (dev.serialNumber || '-').padEnd(16);
-            
-            const comStr = dev.comPorts.map(c => {
-                const roleStr = c.role ? `(${c.role[0]})` : '';
-                return `${c.port}${roleStr}`;
-            }).join(', ');
-            const com = (comStr || '-').padEnd(16);
-            
-            const chain = dev.portChain;
-            const hub = dev.isHub ? ' [HUB]' : '';
-            console.log(`${vidPid} | ${name} | ${serial} | ${com} | ${chain}${hub}`);
-        }
-    } catch (error) {
-        console.error('Error enumerating USB devices:', error);
-        process.exit(1);
-    }
-}
-
-// Run if executed directly
+// Run if executed directly - same as the usb-tree-win command
 if (require.main === module) {
-    main();
+    process.exitCode = runCli(process.argv.slice(2));
 }
 
 // Export for use as a module
 export { buildUSBTree, printUSBTree, getComPortList, getDeviceTable, getDeviceByPortChain, getDevicesByPortChainPrefix, USBTree, USBDevice, ComPortInfo };
+export {
+    BuildUSBTreeOptions, buildUSBTreeFromData, getUSBTreeData, USBTreeData, ComPortLink, USBTreeBackend,
+    BuildUSBTreeAsyncOptions, buildUSBTreeAsync, getUSBTreeDataAsync,
+    CommandRunner, AsyncCommandRunner, RunOptions, defaultCommandRunner,
+    ReplayFormat, detectReplayFormat, getUSBTreeDataReplay, readReplayFile, createReplayRunner,
+    PnputilDevice, parsePnputilOutput, pnputilDevicesToTreeData, pnputilPhantomsToTreeData, pnputilOutputsToTreeData,
+    PNPUTIL_LABELS, PnputilDiagnostics, PnputilParseResult, detectPnputilLocale, parsePnputilOutputWithDiagnostics,
+    getUSBTreeDataSysfs, DEFAULT_SYSFS_ROOT, compareComPortNames, comparePortChains, isChannelDevice, deviceComPorts,
+    DeviceStatus, EnumerationOptions, PROBLEM_CODES, hasProblem,
+    DisconnectedData, markDisconnected, DriverInfo, compareDriverVersions, normalizeDriverDate,
+    ChannelProfile, FtdiBusId, registerChannelProfile, getChannelProfile, channelName, channelRole, channelFromInterface, parseFtdiBusId,
+} from './usb-tree';
+export {
+    USBTreeError, USBTreeErrorOptions, PowerShellNotFoundError, EnumerationTimeoutError, BackendFailedError, ParseError,
+    BackendAttempt, USBTreeLogger, consoleLogger, toBackendError,
+} from './usb-errors';
+export {
+    USBTreeWatcher, USBTreeWatcherOptions, USBTreeWatcherEvents,
+    DeviceEvent, ComPortEvent, KernelNameChangedEvent,
+} from './usb-tree-watcher';
+export { waitForDevice, waitForComPort, waitForRemoval, WaitOptions, WaitTimeoutError } from './usb-wait';
+export { USBTreeServer, USBTreeServerOptions } from './usb-server';
+export {
+    LeaseManager, LeaseManagerOptions, AcquireOptions, Lease, LeaseRecord, LeaseError, LeaseErrorReason, isLeaseStale, DEFAULT_LEASE_DIR,
+} from './usb-lease';
+export {
+    IdentityTracker, IdentityTrackerOptions, IdentityGroup, TrackedIdentity, IdentityTransition, TransitionKind, DeviceState,
+} from './usb-identity';
+export {
+    diffUSBTrees, formatUSBTreeDiff, USBTreeDiff, DeviceChange, FieldChange, DiffField, DiffOptions, DeviceMatch,
+} from './usb-tree-diff';
+export {
+    serializeUSBTree, deserializeUSBTree, USBTreeSnapshot, SnapshotDevice, SnapshotComPort, SNAPSHOT_SCHEMA, SNAPSHOT_VERSION,
+    toDeviceRecord, DeviceRecord,
+} from './usb-tree-snapshot';
+export {
+    query, pruneUSBTree, parseSelector, validateSelector, formatSelector, matchesSelector, matchPortChain, matchGlob, matchDriverVersion,
+    DeviceSelector, QueryOptions, PruneOptions, SelectorError,
+} from './usb-query';
+export {
+    configureDeviceNames, parseUsbIds, loadUsbIds, loadNameOverrides,
+    lookupVendorName, lookupProductName, lookupInterfaceName,
+    UsbIdsDatabase, DeviceNameOverrides, DeviceNameSources,
+} from './usb-ids';
+export {
+    AliasRegistry, resolveAlias, AliasError, AliasErrorReason, AliasConfig, ResolvedAlias,
+} from './usb-aliases';
+export {
+    PrintUSBTreeOptions, TreeStyle, RenderColumn, RenderTreeOptions, RenderTableOptions, RenderHtmlOptions, TABLE_COLUMNS, CSV_COLUMNS,
+    renderTree, renderTable, renderMarkdownTable, renderCsv, renderHtmlTable, renderHtmlReport,
+    GraphOptions, toDot, toMermaid,
+} from './usb-tree';
+export {
+    runBenchmark, formatBenchmarkReport, checkBackendConsistency, percentile, timingStats,
+    BenchmarkBackend, BenchmarkOptions, BenchmarkReport, BackendResult, ConsistencyResult, TimingStats,
+} from './usb-benchmark';
+export {
+    loadManifest, parseManifest, validateTopology, formatManifestReport, ManifestError,
+    TopologyManifest, ManifestDevice, ManifestIssue, ManifestIssueKind, ManifestDeviceRef, ManifestReport,
+} from './usb-manifest';
+export { runCli, EXIT_OK, EXIT_ERROR, EXIT_USAGE, EXIT_NOT_FOUND, EXIT_AMBIGUOUS, EXIT_INCONSISTENT, EXIT_TOPOLOGY } from './cli';
 
@@ -0,0 +1,372 @@
+/**
+ * pnputil Output Parser
+ * Parses the block output of `pnputil /enum-devices [/relations] [/properties]`
+ * and maps it onto the same USBTreeData the PowerShell scripts produce
+ */
+
+import { USBDevice, USBTreeData, ComPortLink, DisconnectedData, DriverInfo, EnumerationOptions, CM_PROB_PHANTOM, createUSBDevice, applyProblemCode, markDisconnected, normalizeDriverDate } from './usb-common';
+import { parseFtdiBusId } from './usb-channels';
+
+// One "Instance ID: ..." block of pnputil output
+export interface PnputilDevice {
+    instanceId: string;
+    fields: Record<string, string[]>;       // Canonical field name -> value lines (see PNPUTIL_LABELS)
+    properties: Record<string, string[]>;   // DEVPKEY_* name -> value lines
+}
+
+// pnputil header labels -> canonical field names, per Windows display language
+// Any other language is parsed by structure (instance IDs, GUIDs, DEVPKEY_* properties), which is all the tree needs
+export const PNPUTIL_LABELS: Record<string, Record<string, string>> = {
+    en: {
+        'Instance ID': 'instanceId',
+        'Device Description': 'description',
+        'Class Name': 'className',
+        'Class GUID': 'classGuid',
+        'Manufacturer Name': 'manufacturer',
+        'Status': 'status',
+        'Driver Name': 'driverName',
+        'Problem Code': 'problemCode',
+        'Problem Status': 'problemStatus',
+        'Parent': 'parent',
+        'Children': 'children',
+        'Device Properties': 'properties',
+    },
+    de: {
+        'Instanz-ID': 'instanceId',
+        'Gerätebeschreibung': 'description',
+        'Klassenname': 'className',
+        'Klassen-GUID': 'classGuid',
+        'Herstellername': 'manufacturer',
+        'Status': 'status',
+        'Treibername': 'driverName',
+        'Übergeordnet': 'parent',
+        'Übergeordnetes Element': 'parent',
+        'Untergeordnet': 'children',
+        'Untergeordnete Elemente': 'children',
+        'Geräteeigenschaften': 'properties',
+    },
+    ja: {
+        'インスタンス ID': 'instanceId',
+        'デバイスの説明': 'description',
+        'クラス名': 'className',
+        'クラス GUID': 'classGuid',
+        '製造元名': 'manufacturer',
+        '状態': 'status',
+        'ドライバー名': 'driverName',
+        '親': 'parent',
+        '子': 'children',
+        'デバイスのプロパティ': 'properties',
+    },
+};
+
+// Label -> canonical name across all languages (labels are compared case-insensitively)
+const FIELD_LABELS = new Map<string, string>();
+for (const labels of Object.values(PNPUTIL_LABELS)) {
+    for (const [label, field] of Object.entries(labels)) {
+        FIELD_LABELS.set(label.toLowerCase(), field);
+    }
+}
+
+// Device classes the tree is built from: USB (hubs, standard devices), USBDevice (WinUSB devices), Ports (COM ports)
+const USB_CLASS_NAMES = new Set(['USB', 'USBDEVICE', 'PORTS']);
+const USB_CLASS_GUIDS = new Set([
+    '{36FC9E60-C465-11CF-8056-444553540000}',   // USB
+    '{88BAE032-5A81-49F0-BC3D-A4FF138216D6}',   // USBDevice
+    '{4D36E978-E325-11CE-BFC1-08002BE10318}',   // Ports
+]);
+const PORTS_CLASS_GUID = '{4D36E978-E325-11CE-BFC1-08002BE10318}';
+
+const INSTANCE_ID_PATTERN = /^[A-Za-z0-9_]+\\\S+$/;
+const GUID_PATTERN = /^\{[0-9A-Fa-f]{8}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{12}\}$/;
+
+export interface PnputilDiagnostics {
+    locale: string | null;         // Language whose labels were found (null = not recognized)
+    structural: boolean;           // Devices were found from the output's structure rather than its labels
+    unknownLabels: string[];       // Header labels not in any label table (first few, for bug reports)
+}
+
+export interface PnputilParseResult {
+    devices: PnputilDevice[];
+    diagnostics: PnputilDiagnostics;
+}
+
+/**
+ * Language of a pnputil capture, from its "Instance ID" label (null if none of PNPUTIL_LABELS matches)
+ */
+export function detectPnputilLocale(output: string): string | null {
+    for (const [locale, labels] of Object.entries(PNPUTIL_LABELS)) {
+        for (const [label, field] of Object.entries(labels)) {
+            if (field !== 'instanceId') continue;
+            const escaped = label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            if (new RegExp(`^${escaped}\\s*[:：]`, 'mi').test(output)) return locale;
+        }
+    }
+    return null;
+}
+
+/**
+ * Split pnputil output into per-device blocks
+ */
+export function parsePnputilOutput(output: string): PnputilDevice[] {
+    return parsePnputilOutputWithDiagnostics(output).devices;
+}
+
+/**
+ * Split pnputil output into per-device blocks and report how the labels were understood
+ * Unknown labels (an unsupported language, or output decoded with the wrong code page) fall back to structure:
+ * the first header of a blank-line separated block whose value looks like an instance ID starts a device,
+ * later instance ID headers are the parent and then the children (the order /relations prints them in),
+ * GUID values are the class GUID, and indented "DEVPKEY_* [Type]:" lines are properties
+ */
+export function parsePnputilOutputWithDiagnostics(output: string): PnputilParseResult {
+    const devices: PnputilDevice[] = [];
+    const unknownLabels = new Set<string>();
+    let structural = false;
+    let current: PnputilDevice | null = null;
+    let lastField: string | null = null;
+    let inProperties = false;
+    let currentProperty: string | null = null;
+    let blockStart = true;
+
+    for (const line of output.split(/\r?\n/)) {
+        if (!line.trim()) {
+            blockStart = true;
+            continue;
+        }
+
+        // Unindented "Label: value" header line (Japanese/Chinese output may use a full-width colon)
+        const header = /^([^\s:：][^:：]*?)\s*[:：]\s*(.*)$/.exec(line);
+        if (header) {
+            const value = header[2].trim();
+            let field = FIELD_LABELS.get(header[1].toLowerCase());
+            if (!field) {
+                if (blockStart && INSTANCE_ID_PATTERN.test(value)) {
+                    field = 'instanceId';
+                    structural = true;
+                } else if (current && INSTANCE_ID_PATTERN.test(value)) {
+                    field = current.fields.parent ? 'children' : 'parent';
+                } else if (GUID_PATTERN.test(value)) {
+                    field = 'classGuid';
+                } else {
+                    field = header[1];
+                }
+                if (unknownLabels.size < 10) unknownLabels.add(header[1]);
+            }
+            blockStart = false;
+
+            if (field === 'instanceId') {
+                current = { instanceId: value, fields: {}, properties: {} };
+                devices.push(current);
+            }
+            if (!current) continue;
+
+            current.fields[field] = value ? [value] : [];
+            lastField = field;
+            inProperties = field === 'properties';
+            currentProperty = null;
+            continue;
+        }
+        blockStart = false;
+
+        if (!current || !/^\s/.test(line)) continue;
+
+        // Indented "DEVPKEY_Name [Type]:" property header - DEVPKEY names are never translated
+        const property = /^\s+(\S.*?)\s+\[[^\]]*\][:：]\s*$/.exec(line);
+        if (property && (inProperties || property[1].startsWith('DEVPKEY_'))) {
+            inProperties = true;
+            currentProperty = property[1];
+            current.properties[currentProperty] = [];
+        } else if (inProperties && currentProperty) {
+            current.properties[currentProperty].push(line.trim());
+        } else if (lastField) {
+            // Continuation of a multi-line field (e.g. Children)
+            current.fields[lastField].push(line.trim());
+        }
+    }
+
+    return {
+        devices,
+        diagnostics: { locale: detectPnputilLocale(output), structural, unknownLabels: [...unknownLabels] },
+    };
+}
+
+function firstField(dev: PnputilDevice, field: string): string {
+    return dev.fields[field]?.[0] || '';
+}
+
+function firstProperty(dev: PnputilDevice, key: string): string {
+    return dev.properties[key]?.[0] || '';
+}
+
+// DEVPKEY_Device_Parent is language independent, so it wins over the "Parent:" header
+function parentOf(dev: PnputilDevice): string {
+    return firstProperty(dev, 'DEVPKEY_Device_Parent') || firstField(dev, 'parent');
+}
+
+function isUSBClass(dev: PnputilDevice): boolean {
+    const className = firstField(dev, 'className') || firstProperty(dev, 'DEVPKEY_Device_Class');
+    const classGuid = firstField(dev, 'classGuid') || firstProperty(dev, 'DEVPKEY_Device_ClassGuid');
+
+    // Single-class dumps (/class X) still carry these lines; accept blocks without any class info
+    if (!className && !classGuid) return true;
+    return USB_CLASS_NAMES.has(className.toUpperCase()) || USB_CLASS_GUIDS.has(classGuid.toUpperCase());
+}
+
+/**
+ * Device Manager problem code of a block - "Problem Code: 43 (0x2B)" header or DEVPKEY_Device_ProblemCode (0 = none)
+ * CM_PROB_PHANTOM only says the device is disconnected, which /disconnected listings already tell
+ */
+function problemCodeOf(dev: PnputilDevice): number {
+    const value = firstField(dev, 'problemCode') || firstProperty(dev, 'DEVPKEY_Device_ProblemCode');
+    const code = /^0x[0-9A-Fa-f]+$/.test(value) ? parseInt(value, 16) : parseInt(value);
+    return isNaN(code) || code === CM_PROB_PHANTOM ? 0 : code;
+}
+
+/**
+ * Driver details of a block (undefined for devices without a driver)
+ * "Driver Name: oem12.inf" is the INF; the rest needs the /properties section
+ */
+function driverOf(dev: PnputilDevice): DriverInfo | undefined {
+    const driver: DriverInfo = {
+        service: firstProperty(dev, 'DEVPKEY_Device_Service'),
+        provider: firstProperty(dev, 'DEVPKEY_Device_DriverProvider'),
+        version: firstProperty(dev, 'DEVPKEY_Device_DriverVersion'),
+        date: normalizeDriverDate(firstProperty(dev, 'DEVPKEY_Device_DriverDate')),
+        inf: firstField(dev, 'driverName') || firstProperty(dev, 'DEVPKEY_Device_DriverInfPath'),
+    };
+    return driver.service || driver.inf ? driver : undefined;
+}
+
+function isPortsClass(dev: PnputilDevice): boolean {
+    const className = firstField(dev, 'className') || firstProperty(dev, 'DEVPKEY_Device_Class');
+    const classGuid = firstField(dev, 'classGuid') || firstProperty(dev, 'DEVPKEY_Device_ClassGuid');
+    return className.toUpperCase() === 'PORTS' || classGuid.toUpperCase() === PORTS_CLASS_GUID;
+}
+
+/**
+ * Map a COM port's instance ID to the USB device that owns it (same rules as the PowerShell scripts)
+ * parentPath is the port's DEVPKEY_Device_Parent - required for MI_xx interfaces, preferred for FTDIBUS
+ */
+export function comPortLinkFromInstanceId(instanceId: string, kernelName: string, parentPath = ''): ComPortLink | null {
+    if (/^FTDIBUS\\/i.test(instanceId)) {
+        // FTDI: FTDIBUS\VID_0403+PID_6011+FT4ABCDB\0000 -> serial FT4ABCD, channel 2
+        const ftdi = parseFtdiBusId(instanceId);
+        if (!ftdi) return null;
+        return {
+            instancePath: parentPath || `USB\\VID_${ftdi.vid}&PID_${ftdi.pid}\\${ftdi.parentInstanceId}`,
+            kernelName,
+            channel: ftdi.channel,
+        };
+    }
+    if (/^USB\\/i.test(instanceId)) {
+        // Composite interface: USB\VID_10C4&PID_EA70&MI_01\... belongs to the parent composite device
+        const interfaceMatch = /&MI_([0-9A-Fa-f]{2})\\/i.exec(instanceId);
+        if (interfaceMatch && parentPath) {
+            return { instancePath: parentPath, kernelName, interfaceNumber: parseInt(interfaceMatch[1], 16) };
+        }
+        // Regular USB: USB\VID_10C4&PID_EA60\xxxx
+        return { instancePath: instanceId, kernelName };
+    }
+    return null;
+}
+
+/**
+ * Build USBTreeData from parsed pnputil blocks
+ * Port numbers, hub detection and kernel names need the /properties section
+ * Blocks with a problem code are skipped unless options.includeProblemDevices is set
+ */
+export function pnputilDevicesToTreeData(blocks: PnputilDevice[], options: EnumerationOptions = {}): USBTreeData {
+    const devices = new Map<string, USBDevice>();
+    const comPorts = new Map<string, ComPortLink>();
+
+    for (const block of blocks) {
+        if (!isUSBClass(block)) continue;
+
+        const problemCode = problemCodeOf(block);
+        if (problemCode !== 0 && !options.includeProblemDevices) continue;
+
+        const instancePath = block.instanceId;
+        const segments = instancePath.split('\\');
+
+        if (segments.length === 3 && segments[0].toUpperCase() === 'USB' && !/&MI_\d+/i.test(segments[1])) {
+            const [, vidPidKey, instanceId] = segments;
+
+            let vid = '';
+            let pid = '';
+            const idMatch = /VID_([0-9A-Fa-f]{4})&PID_([0-9A-Fa-f]{4})/.exec(vidPidKey);
+            if (idMatch) {
+                vid = idMatch[1];
+                pid = idMatch[2];
+            } else if (vidPidKey.toUpperCase() === 'ROOT_HUB30') {
+                vid = 'ROOT';
+                pid = 'HUB30';
+            }
+
+            const portMatch = /Port_#(\d+)/.exec(firstProperty(block, 'DEVPKEY_Device_LocationInfo'));
+            const service = firstProperty(block, 'DEVPKEY_Device_Service').toUpperCase();
+
+            const device = createUSBDevice({
+                instancePath,
+                vid,
+                pid,
+                instanceId,
+                parentPath: parentOf(block),
+                portNumber: portMatch ? parseInt(portMatch[1]) : 0,
+                isHub: service === 'USBHUB' || service === 'USBHUB3' || vidPidKey.toUpperCase() === 'ROOT_HUB30',
+                rawName: firstProperty(block, 'DEVPKEY_Device_FriendlyName')
+                    || firstProperty(block, 'DEVPKEY_Device_DeviceDesc')
+                    || firstField(block, 'description')
+                    || vidPidKey,
+            });
+            if (options.includeProblemDevices) {
+                applyProblemCode(device, problemCode);
+            }
+            const driver = driverOf(block);
+            if (driver) {
+                device.driver = driver;
+            }
+            devices.set(instancePath.toUpperCase(), device);
+        }
+
+        if (isPortsClass(block)) {
+            // Extract COM port from description like "Silicon Labs CP210x USB to UART Bridge (COM9)"
+            const description = firstField(block, 'description') || firstProperty(block, 'DEVPKEY_Device_FriendlyName');
+            const comMatch = /\(COM(\d+)\)/.exec(description);
+            if (!comMatch) continue;
+
+            const link = comPortLinkFromInstanceId(
+                instancePath,
+                firstProperty(block, 'DEVPKEY_Device_PDOName'),
+                parentOf(block));
+            if (link) {
+                const driver = driverOf(block);
+                if (driver) {
+                    link.driver = driver;
+                }
+                comPorts.set(`COM${comMatch[1]}`, link);
+            }
+        }
+    }
+
+    return { devices, comPorts };
+}
+
+/**
+ * Build the disconnected device list from `pnputil /enum-devices /disconnected` blocks
+ * Devices keep their last port number, parent and COM port; times come from DEVPKEY_Device_LastArrivalDate/LastRemovalDate
+ * Every block counts - a remembered device's last problem code (other than CM_PROB_PHANTOM) must not hide it
+ */
+export function pnputilPhantomsToTreeData(blocks: PnputilDevice[]): DisconnectedData {
+    const { devices, comPorts } = pnputilDevicesToTreeData(blocks, { includeProblemDevices: true });
+    for (const block of blocks) {
+        const device = devices.get(block.instanceId.toUpperCase());
+        if (device) {
+            // Remembered devices carry the same fields as PHANTOM lines - no status of their last session
+            delete device.status;
+            delete device.problemCode;
+            delete device.problemDescription;
+            markDisconnected(device, firstProperty(block, 'DEVPKEY_Device_LastArrivalDate'), firstProperty(block, 'DEVPKEY_Device_LastRemovalDate'));
+        }
+    }
+    return { devices, comPorts };
+}
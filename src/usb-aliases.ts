@@ -0,0 +1,154 @@
+/**
+ * Device Aliases
+ * Named devices ("dut-a-jtag", "power-analyzer") defined by selector in a JSON config
+ */
+
+import { readFileSync } from 'fs';
+import { USBDevice, ComPortInfo, USBTree, isChannelDevice, deviceComPorts } from './usb-common';
+import { DeviceSelector, parseSelector, validateSelector, query, matchesSelector, formatSelector, SelectorError } from './usb-query';
+import { USBTreeError } from './usb-errors';
+
+// Alias config file layout: each alias is a selector object or selector string
+export interface AliasConfig {
+    aliases: Record<string, DeviceSelector | string>;
+}
+
+export interface ResolvedAlias {
+    name: string;
+    device: USBDevice;
+    comPort?: ComPortInfo;     // First COM port of the device (the channel's port for channel aliases, channel A's for a whole bridge)
+}
+
+export type AliasErrorReason = 'unknown' | 'not-found' | 'ambiguous';
+
+export class AliasError extends USBTreeError {
+    constructor(
+        message: string,
+        public readonly alias: string,
+        public readonly reason: AliasErrorReason,
+        public readonly matches: USBDevice[] = []
+    ) {
+        super(message);
+        this.name = 'AliasError';
+    }
+}
+
+/**
+ * Named selectors, usually loaded from a JSON config with AliasRegistry.load()
+ */
+export class AliasRegistry {
+    private readonly aliases = new Map<string, DeviceSelector>();
+
+    constructor(aliases: Record<string, DeviceSelector | string> = {}) {
+        for (const [name, selector] of Object.entries(aliases)) {
+            this.define(name, selector);
+        }
+    }
+
+    /**
+     * Load aliases from a JSON file: { "aliases": { "dut-a-jtag": { "chain": "2-3-2", "role": "JTAG" } } }
+     */
+    static load(filePath: string): AliasRegistry {
+        let config: AliasConfig;
+        try {
+            config = JSON.parse(readFileSync(filePath, 'utf8'));
+        } catch (error) {
+            throw new USBTreeError(`Cannot read alias config ${filePath}: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+        }
+        if (!config || typeof config.aliases !== 'object') {
+            throw new USBTreeError(`Alias config ${filePath} has no "aliases" object`);
+        }
+        return new AliasRegistry(config.aliases);
+    }
+
+    /**
+     * @throws SelectorError naming the alias if the selector is invalid
+     */
+    define(name: string, selector: DeviceSelector | string): void {
+        try {
+            this.aliases.set(name, typeof selector === 'string' ? parseSelector(selector) : validateSelector(selector));
+        } catch (error) {
+            if (error instanceof SelectorError) throw new SelectorError(`Alias "${name}": ${error.message}`);
+            throw error;
+        }
+    }
+
+    get(name: string): DeviceSelector | undefined {
+        return this.aliases.get(name);
+    }
+
+    names(): string[] {
+        return [...this.aliases.keys()];
+    }
+
+    /**
+     * All devices an alias currently matches
+     * A role/channel alias on a multi-port device (e.g. chain=2-3-2 role=JTAG) matches the channel child
+     */
+    match(tree: USBTree, name: string): USBDevice[] {
+        const selector = this.aliases.get(name);
+        if (!selector) {
+            throw new AliasError(`Unknown alias "${name}"`, name, 'unknown');
+        }
+
+        // Channel children inherit VID/PID/serial - report the physical device, not it and its channels
+        const matched = query(tree, selector);
+        const matchedPaths = new Set(matched.map(d => d.instancePath));
+        const direct = matched.filter(d => !(isChannelDevice(d) && d.parentPath && matchedPaths.has(d.parentPath)));
+        if (direct.length > 0 || (selector.role === undefined && selector.channel === undefined)) {
+            return direct;
+        }
+
+        const { role, channel, ...base } = selector;
+        const channels: USBDevice[] = [];
+        for (const dev of query(tree, base)) {
+            for (const child of dev.children) {
+                if (isChannelDevice(child) && matchesSelector(child, { role, channel })) {
+                    channels.push(child);
+                }
+            }
+        }
+        return channels;
+    }
+
+    /**
+     * Resolve an alias to exactly one device
+     * @throws AliasError when the alias is unknown or matches zero or several devices
+     */
+    resolve(tree: USBTree, name: string): ResolvedAlias {
+        const matches = this.match(tree, name);
+        const selectorText = formatSelector(this.aliases.get(name)!);
+
+        if (matches.length === 0) {
+            throw new AliasError(`Alias "${name}" (${selectorText}) matches no connected device`, name, 'not-found');
+        }
+        if (matches.length > 1) {
+            const list = matches.map(d => `${d.portChain} ${d.name}`).join(', ');
+            throw new AliasError(`Alias "${name}" (${selectorText}) matches ${matches.length} devices: ${list}`, name, 'ambiguous', matches);
+        }
+
+        return { name, device: matches[0], comPort: deviceComPorts(matches[0])[0] };
+    }
+
+    /**
+     * Alias names per device, for display (ambiguous aliases are shown on every match)
+     */
+    labels(tree: USBTree): Map<USBDevice, string[]> {
+        const labels = new Map<USBDevice, string[]>();
+        for (const name of this.aliases.keys()) {
+            for (const dev of this.match(tree, name)) {
+                const list = labels.get(dev) || [];
+                list.push(name);
+                labels.set(dev, list);
+            }
+        }
+        return labels;
+    }
+}
+
+/**
+ * Resolve a named device to its USBDevice and COM port
+ */
+export function resolveAlias(tree: USBTree, name: string, registry: AliasRegistry): ResolvedAlias {
+    return registry.resolve(tree, name);
+}
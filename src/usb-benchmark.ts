@@ -0,0 +1,236 @@
+/**
+ * Backend Benchmark
+ * Times each enumeration backend over several iterations and checks that they agree,
+ * field by field (COM ports and children included) - run it after Windows updates to catch pnputil regressions
+ */
+
+import { performance } from 'perf_hooks';
+import { hostname, release } from 'os';
+import { USBTree, USBTreeData } from './usb-common';
+import { buildUSBTreeFromData, getUSBTreeDataPowerShell } from './usb-tree';
+import { getUSBTreeDataPnputil } from './usb-tree-pnputil';
+import { getUSBTreeDataSysfs } from './usb-tree-sysfs';
+import { CommandRunner, defaultCommandRunner } from './usb-runner';
+import { diffUSBTrees, formatUSBTreeDiff, DiffOptions } from './usb-tree-diff';
+
+export type BenchmarkBackend = 'pnputil' | 'powershell' | 'sysfs';
+
+export interface BenchmarkOptions {
+    backends?: BenchmarkBackend[];     // Default: pnputil and powershell (sysfs on Linux); the first is the reference
+    iterations?: number;               // Timed runs per backend (default: 5)
+    warmup?: number;                   // Untimed runs per backend before timing (default: 0)
+    runner?: CommandRunner;
+    sysfsRoot?: string;
+    diff?: DiffOptions;                // Consistency check options (default: ignore names, match by instance path)
+    maxDifferences?: number;           // Formatted differences kept per comparison (default: 20)
+}
+
+export interface TimingStats {
+    min: number;
+    median: number;
+    p95: number;
+    mean: number;
+    max: number;
+}
+
+export interface BackendResult {
+    backend: BenchmarkBackend;
+    runs: number;                      // Successful timed runs
+    samples: number[];                 // Milliseconds per successful run
+    timings: TimingStats | null;       // null if every run failed
+    devices: number;                   // From the last successful run
+    comPorts: number;
+    stable: boolean;                   // Every run produced the same tree as the first one
+    errors: string[];
+}
+
+export interface ConsistencyResult {
+    reference: BenchmarkBackend;
+    backend: BenchmarkBackend;
+    identical: boolean;
+    added: number;                     // Only in backend
+    removed: number;                   // Only in reference
+    changed: number;
+    differences: string[];             // formatUSBTreeDiff lines (reference -> backend), truncated
+}
+
+export interface BenchmarkReport {
+    timestamp: string;
+    host: string;
+    platform: string;
+    osRelease: string;
+    nodeVersion: string;
+    iterations: number;
+    results: BackendResult[];
+    consistency: ConsistencyResult[];
+    ok: boolean;                       // All backends ran, were stable and agree with the reference
+}
+
+const DEFAULT_DIFF: DiffOptions = { ignore: ['name'], matchBy: ['instancePath'] };
+
+/**
+ * p-th percentile (0-100) of a sample, nearest-rank method
+ */
+export function percentile(samples: number[], p: number): number {
+    if (samples.length === 0) return NaN;
+    const sorted = [...samples].sort((a, b) => a - b);
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+export function timingStats(samples: number[]): TimingStats {
+    return {
+        min: Math.min(...samples),
+        median: percentile(samples, 50),
+        p95: percentile(samples, 95),
+        mean: samples.reduce((sum, s) => sum + s, 0) / samples.length,
+        max: Math.max(...samples),
+    };
+}
+
+// Each backend is called directly - no pnputil -> PowerShell fallback, a failing backend must show up as failing
+function enumerate(backend: BenchmarkBackend, options: BenchmarkOptions): USBTreeData {
+    const runner = options.runner || defaultCommandRunner;
+    switch (backend) {
+        case 'pnputil': return getUSBTreeDataPnputil(runner);
+        case 'powershell': return getUSBTreeDataPowerShell(runner);
+        case 'sysfs': return getUSBTreeDataSysfs(options.sysfsRoot);
+    }
+}
+
+/**
+ * Compare two backends' trees field by field (see diffUSBTrees)
+ */
+export function checkBackendConsistency(
+    reference: { backend: BenchmarkBackend; tree: USBTree },
+    other: { backend: BenchmarkBackend; tree: USBTree },
+    diffOptions: DiffOptions = DEFAULT_DIFF,
+    maxDifferences = 20
+): ConsistencyResult {
+    const diff = diffUSBTrees(reference.tree, other.tree, diffOptions);
+    return {
+        reference: reference.backend,
+        backend: other.backend,
+        identical: diff.identical,
+        added: diff.added.length,
+        removed: diff.removed.length,
+        changed: diff.changed.length,
+        differences: formatUSBTreeDiff(diff).slice(0, maxDifferences),
+    };
+}
+
+/**
+ * Run every backend `iterations` times, collect min/median/p95 timings and check consistency
+ * Enumeration is synchronous, so backends run one after another and don't skew each other's timings
+ */
+export function runBenchmark(options: BenchmarkOptions = {}): BenchmarkReport {
+    const backends = options.backends || (process.platform === 'linux' ? ['sysfs'] : ['pnputil', 'powershell']) as BenchmarkBackend[];
+    const iterations = Math.max(1, options.iterations ?? 5);
+    const diffOptions = options.diff || DEFAULT_DIFF;
+    const maxDifferences = options.maxDifferences ?? 20;
+
+    const results: BackendResult[] = [];
+    const trees: { backend: BenchmarkBackend; tree: USBTree }[] = [];
+
+    for (const backend of backends) {
+        for (let i = 0; i < (options.warmup || 0); i++) {
+            try { enumerate(backend, options); } catch { }
+        }
+
+        const samples: number[] = [];
+        const errors: string[] = [];
+        let first: USBTree | null = null;
+        let last: USBTree | null = null;
+        let stable = true;
+
+        for (let i = 0; i < iterations; i++) {
+            try {
+                const start = performance.now();
+                const tree = buildUSBTreeFromData(enumerate(backend, options));
+                samples.push(performance.now() - start);
+
+                if (!first) {
+                    first = tree;
+                } else if (stable && !diffUSBTrees(first, tree, diffOptions).identical) {
+                    stable = false;
+                }
+                last = tree;
+            } catch (error) {
+                errors.push(error instanceof Error ? error.message : String(error));
+            }
+        }
+
+        results.push({
+            backend,
+            runs: samples.length,
+            samples,
+            timings: samples.length > 0 ? timingStats(samples) : null,
+            devices: last ? last.allDevices.size : 0,
+            comPorts: last ? last.comPortMap.size : 0,
+            stable,
+            errors,
+        });
+        if (last) trees.push({ backend, tree: last });
+    }
+
+    const consistency = trees.slice(1).map(other => checkBackendConsistency(trees[0], other, diffOptions, maxDifferences));
+
+    return {
+        timestamp: new Date().toISOString(),
+        host: hostname(),
+        platform: process.platform,
+        osRelease: release(),
+        nodeVersion: process.version,
+        iterations,
+        results,
+        consistency,
+        ok: results.every(r => r.errors.length === 0 && r.stable) && consistency.every(c => c.identical),
+    };
+}
+
+function ms(value: number): string {
+    return `${value.toFixed(1)} ms`;
+}
+
+/**
+ * Human-readable benchmark summary
+ */
+export function formatBenchmarkReport(report: BenchmarkReport): string {
+    const lines: string[] = [];
+    lines.push(`Benchmark on ${report.host} (${report.platform} ${report.osRelease}, Node ${report.nodeVersion}), ${report.iterations} iteration(s)`);
+    lines.push('-'.repeat(80));
+    lines.push(`${'Backend'.padEnd(12)} ${'Runs'.padStart(5)} ${'Min'.padStart(11)} ${'Median'.padStart(11)} ${'p95'.padStart(11)} ${'Devices'.padStart(8)} ${'COM'.padStart(5)}`);
+    for (const r of report.results) {
+        const t = r.timings;
+        lines.push([
+            r.backend.padEnd(12),
+            String(r.runs).padStart(5),
+            (t ? ms(t.min) : '-').padStart(11),
+            (t ? ms(t.median) : '-').padStart(11),
+            (t ? ms(t.p95) : '-').padStart(11),
+            String(r.devices).padStart(8),
+            String(r.comPorts).padStart(5),
+        ].join(' '));
+        if (!r.stable) lines.push(`  WARNING: ${r.backend} returned different trees across runs`);
+        for (const error of [...new Set(r.errors)]) lines.push(`  ERROR: ${error}`);
+    }
+
+    const reference = report.results[0];
+    for (const r of report.results.slice(1)) {
+        if (reference?.timings && r.timings) {
+            lines.push(`Speedup ${reference.backend} vs ${r.backend}: ${(r.timings.median / reference.timings.median).toFixed(2)}x (median)`);
+        }
+    }
+
+    lines.push('-'.repeat(80));
+    for (const c of report.consistency) {
+        if (c.identical) {
+            lines.push(`${c.backend} matches ${c.reference}`);
+        } else {
+            lines.push(`${c.backend} differs from ${c.reference}: ${c.added} added, ${c.removed} removed, ${c.changed} changed (- only in ${c.reference}, + only in ${c.backend})`);
+            c.differences.forEach(d => lines.push(`  ${d}`));
+        }
+    }
+    lines.push(report.ok ? 'RESULT: OK' : 'RESULT: FAILED');
+    return lines.join('\n');
+}
@@ -0,0 +1,101 @@
+/**
+ * Multi-Channel Serial Bridges
+ * Per-chip channel profiles (FTDI FT2232H/FT4232H, Silicon Labs CP2105/CP2108, WCH CH342/CH344)
+ * and the rules that map FTDIBUS IDs and MI_xx interfaces to a channel of the owning USB device
+ */
+
+export interface ChannelProfile {
+    vid: string;
+    pid: string;
+    chip: string;              // Chip name, for display and docs
+    channels: number;          // Number of serial channels
+    interfaces?: number[];     // MI_xx interface number of each channel (default: channel N = interface N-1)
+    roles?: string[];          // Optional role per channel, index 0 = channel A (e.g. ['JTAG', 'Serial'])
+}
+
+// Built-in profiles - keyed by 'VID:PID', override with registerChannelProfile()
+const BUILTIN_PROFILES: ChannelProfile[] = [
+    { vid: '0403', pid: '6001', chip: 'FT232R', channels: 1 },
+    { vid: '0403', pid: '6010', chip: 'FT2232H/FT2232D', channels: 2, roles: ['JTAG', 'Serial'] },
+    { vid: '0403', pid: '6011', chip: 'FT4232H', channels: 4 },
+    { vid: '0403', pid: '6014', chip: 'FT232H', channels: 1 },
+    { vid: '0403', pid: '6015', chip: 'FT-X', channels: 1 },
+    { vid: '10C4', pid: 'EA60', chip: 'CP210x', channels: 1 },
+    { vid: '10C4', pid: 'EA70', chip: 'CP2105', channels: 2, interfaces: [0, 1] },
+    { vid: '10C4', pid: 'EA71', chip: 'CP2108', channels: 4, interfaces: [0, 1, 2, 3] },
+    { vid: '1A86', pid: '55D2', chip: 'CH342', channels: 2, interfaces: [0, 2] },
+    { vid: '1A86', pid: '55D5', chip: 'CH344', channels: 4, interfaces: [0, 2, 4, 6] },
+];
+
+const profiles = new Map<string, ChannelProfile>();
+for (const profile of BUILTIN_PROFILES) {
+    profiles.set(`${profile.vid}:${profile.pid}`.toUpperCase(), profile);
+}
+
+/**
+ * Add or replace a channel profile, e.g. to give an FT4232H rig its own roles:
+ * registerChannelProfile({ vid: '0403', pid: '6011', chip: 'FT4232H', channels: 4, roles: ['JTAG', 'SWD', 'UART', 'UART'] })
+ */
+export function registerChannelProfile(profile: ChannelProfile): void {
+    profiles.set(`${profile.vid}:${profile.pid}`.toUpperCase(), { ...profile });
+}
+
+export function getChannelProfile(vid: string, pid: string): ChannelProfile | undefined {
+    return profiles.get(`${vid}:${pid}`.toUpperCase());
+}
+
+/** Channel letter: 1 -> A, 2 -> B, ... */
+export function channelName(channel: number): string {
+    return String.fromCharCode(64 + channel);
+}
+
+/** Role configured for a channel (undefined if the profile defines none) */
+export function channelRole(vid: string, pid: string, channel: number): string | undefined {
+    return getChannelProfile(vid, pid)?.roles?.[channel - 1] || undefined;
+}
+
+/**
+ * Channel of a composite interface (MI_xx) - profiles list the interface of each channel,
+ * e.g. CDC bridges like the CH342 use two interfaces per port (MI_00 = A, MI_02 = B)
+ */
+export function channelFromInterface(vid: string, pid: string, interfaceNumber: number): number {
+    const index = getChannelProfile(vid, pid)?.interfaces?.indexOf(interfaceNumber) ?? -1;
+    return index >= 0 ? index + 1 : interfaceNumber + 1;
+}
+
+export interface FtdiBusId {
+    vid: string;
+    pid: string;
+    parentInstanceId: string;  // Instance ID of the USB device (last segment of its instance path)
+    channel?: number;
+}
+
+/**
+ * Split an FTDIBUS instance ID into the owning USB device and the channel
+ *   FTDIBUS\VID_0403+PID_6011+FT4ABCDB\0000      -> serial FT4ABCD, channel B (2)
+ *   FTDIBUS\VID_0403+PID_6010+7&b5542c6&0&2&1\0000 -> no serial, channel 1
+ * Single-channel chips keep their location-based IDs unchanged (the trailing &N is the port, not a channel)
+ */
+export function parseFtdiBusId(instanceId: string): FtdiBusId | null {
+    const match = /^FTDIBUS\\VID_([0-9A-Fa-f]{4})\+PID_([0-9A-Fa-f]{4})\+(.+?)\\/i.exec(instanceId);
+    if (!match) return null;
+
+    const [, vid, pid, id] = match;
+    const profile = getChannelProfile(vid, pid);
+
+    if (id.includes('&')) {
+        // Location-based ID - the driver appends &<channel> for multi-channel chips
+        const channelMatch = /^(.+)&(\d+)$/.exec(id);
+        if (channelMatch && (!profile || profile.channels > 1)) {
+            return { vid, pid, parentInstanceId: channelMatch[1], channel: parseInt(channelMatch[2]) || undefined };
+        }
+        return { vid, pid, parentInstanceId: id };
+    }
+
+    // Serial-based ID - the driver appends the channel letter to the serial number
+    const letterMatch = /^(.+)([A-Da-d])$/.exec(id);
+    if (letterMatch) {
+        return { vid, pid, parentInstanceId: letterMatch[1], channel: letterMatch[2].toUpperCase().charCodeAt(0) - 64 };
+    }
+    return { vid, pid, parentInstanceId: id };
+}
@@ -2,6 +2,11 @@
  * USB Tree Common Definitions and Helpers
  */
 
+import { lookupVendorName, lookupProductName } from './usb-ids';
+import { USBTreeLogger, consoleLogger } from './usb-errors';
+import { parseFtdiBusId } from './usb-channels';
+import type { BackendAttempt } from './usb-errors';
+
 // Interfaces
 export interface USBDevice {
     instancePath: string;
@@ -17,22 +22,77 @@ export interface USBDevice {
     children: USBDevice[];
     portChain: string;
     kernelName: string;
+    status?: DeviceStatus;         // Only set when enumerated with includeProblemDevices
+    problemCode?: number;          // Device Manager problem code (CM_PROB_*), 0 = none
+    problemDescription?: string;   // Device Manager text for problemCode
+    present?: boolean;             // false for devices from includeDisconnected (USBTree.disconnected), absent = connected
+    lastArrival?: string;          // Disconnected devices: last time connected (ISO 8601 when parsable)
+    lastRemoval?: string;          // Disconnected devices: last time removed
+    driver?: DriverInfo;           // Windows backends only; channel children have their COM port's driver
+}
+
+// Installed function driver of a device (empty strings for details Windows doesn't report)
+export interface DriverInfo {
+    service: string;           // e.g. FTDIBUS, usbser, CH341SER_A64, WinUSB
+    provider: string;          // e.g. FTDI, wch.cn, Microsoft
+    version: string;           // e.g. 2.12.36.4
+    date: string;              // YYYY-MM-DD when parsable
+    inf: string;               // e.g. oem12.inf
 }
 
+// ok = started, disabled = Code 22, problem = any other problem code (43 failed descriptor, 28 no driver, ...)
+export type DeviceStatus = 'ok' | 'problem' | 'disabled';
+
 export interface ComPortInfo {
     port: string;
     kernelName: string;        // \Device\00000209 - changes on replug
-    channel?: number;          // 1 = JTAG/A, 2 = Serial/B for FTDI
-    role?: 'JTAG' | 'Serial';
+    channel?: number;          // 1 = A, 2 = B, ... on multi-channel bridges
+    channelName?: string;      // 'A', 'B', 'C', 'D'
+    role?: string;             // From the chip's channel profile, e.g. JTAG/Serial on FT2232H
 }
 
 export interface USBTree {
     rootHubs: USBDevice[];
     allDevices: Map<string, USBDevice>;
     comPortMap: Map<string, { device: USBDevice; comInfo: ComPortInfo }>;
+    backend?: USBTreeBackend;  // Backend that actually produced the data
+    attempts?: BackendAttempt[];   // Backends tried, in order (failed fallbacks included)
+    disconnected?: USBDevice[];    // includeDisconnected only: devices seen before, most recently removed first - not part of the topology
+}
+
+export type USBTreeBackend = 'pnputil' | 'powershell' | 'replay' | 'sysfs';
+
+// Raw COM port link produced by an enumeration backend (before tree building)
+export interface ComPortLink {
+    instancePath: string;      // USB device the port belongs to
+    kernelName: string;
+    channel?: number;
+    interfaceNumber?: number;  // MI_xx interface of composite devices (mapped to a channel via the chip's profile)
+    driver?: DriverInfo;       // The port's own driver (e.g. FTSER2K under FTDIBUS, usbser under usbccgp)
 }
 
-// Vendor/Product database
+// Flat enumeration result shared by all backends, consumed by buildUSBTreeFromData
+export interface USBTreeData {
+    devices: Map<string, USBDevice>;
+    comPorts: Map<string, ComPortLink>;
+    backend?: USBTreeBackend;
+    attempts?: BackendAttempt[];
+    disconnected?: DisconnectedData;
+}
+
+// Devices Windows remembers but that are not connected now (phantoms), kept apart from the live data
+export interface DisconnectedData {
+    devices: Map<string, USBDevice>;           // present: false
+    comPorts: Map<string, ComPortLink>;        // Last COM port assignments of those devices
+}
+
+// Options understood by every Windows backend and by parseTreeDataOutput
+export interface EnumerationOptions {
+    includeProblemDevices?: boolean;   // Also return present devices that failed to start (default: only started devices)
+    includeDisconnected?: boolean;     // Also return previously seen devices (USBTreeData.disconnected)
+}
+
+// Vendor/Product database (built-in fallback - see usb-ids.ts for usb.ids and user overrides)
 export const VENDORS: Record<string, string> = {
     '0403': 'FTDI',
     '0483': 'STMicroelectronics',
@@ -77,15 +137,29 @@ export const PRODUCTS: Record<string, string> = {
     'C282:3311': 'USB Serial Device',
 };
 
+/**
+ * Vendor name with precedence: user overrides > usb.ids > built-in VENDORS
+ */
+export function getVendorName(vid: string): string | undefined {
+    return lookupVendorName(vid) || VENDORS[vid.toUpperCase()];
+}
+
+/**
+ * Product name with precedence: user overrides > usb.ids > built-in PRODUCTS
+ */
+export function getProductName(vid: string, pid: string): string | undefined {
+    return lookupProductName(vid, pid) || PRODUCTS[`${vid.toUpperCase()}:${pid.toUpperCase()}`];
+}
+
 export function getDeviceName(vid: string, pid: string, rawName: string): string {
-    const key = `${vid.toUpperCase()}:${pid.toUpperCase()}`;
-    if (PRODUCTS[key]) {
-        return PRODUCTS[key];
+    const product = getProductName(vid, pid);
+    if (product) {
+        return product;
     }
 
     // Clean up Windows inf-style names
     if (rawName.startsWith('@')) {
-        const vendor = VENDORS[vid.toUpperCase()] || `Vendor ${vid}`;
+        const vendor = getVendorName(vid) || `Vendor ${vid}`;
         if (rawName.includes('roothub')) {
             return 'USB Root Hub';
         }
@@ -98,5 +172,325 @@ export function getDeviceName(vid: string, pid: string, rawName: string): string
         return `${vendor} Device`;
     }
 
-    return rawName || `${VENDORS[vid.toUpperCase()] || vid}:${pid}`;
+    return rawName || `${getVendorName(vid) || vid}:${pid}`;
+}
+
+// Device Manager problem codes (CM_PROB_*) that USB devices and their COM ports run into
+export const PROBLEM_CODES: Record<number, string> = {
+    1: 'This device is not configured correctly.',
+    3: 'The driver for this device might be corrupted, or the system may be low on memory.',
+    10: 'This device cannot start.',
+    12: 'This device cannot find enough free resources that it can use.',
+    14: 'This device cannot work properly until you restart your computer.',
+    18: 'Reinstall the drivers for this device.',
+    19: 'The configuration information for this device in the registry is incomplete or damaged.',
+    21: 'Windows is removing this device.',
+    22: 'This device is disabled.',
+    24: 'This device is not present, is not working properly, or does not have all its drivers installed.',
+    28: 'The drivers for this device are not installed.',
+    31: 'Windows cannot load the drivers required for this device.',
+    32: 'A driver (service) for this device has been disabled.',
+    37: 'Windows cannot initialize the device driver for this hardware.',
+    38: 'A previous instance of the device driver is still in memory.',
+    39: 'Windows cannot load the device driver for this hardware. The driver may be corrupted or missing.',
+    40: 'The service key information for this device in the registry is missing or recorded incorrectly.',
+    41: 'Windows loaded the device driver for this hardware but cannot find the hardware device.',
+    43: 'Windows has stopped this device because it has reported problems.',
+    45: 'This hardware device is not connected to the computer.',
+    47: 'This device has been prepared for safe removal, but it has not been removed from the computer.',
+    48: 'The software for this device has been blocked from starting because it is known to have problems with Windows.',
+    52: 'Windows cannot verify the digital signature for the drivers required for this device.',
+};
+
+const CM_PROB_DISABLED = 22;
+export const CM_PROB_PHANTOM = 45;    // Reported for every device in a disconnected listing
+
+/**
+ * Set status, problemCode and problemDescription from a Device Manager problem code (0 = started)
+ */
+export function applyProblemCode(dev: USBDevice, problemCode: number): void {
+    dev.status = problemCode === 0 ? 'ok' : problemCode === CM_PROB_DISABLED ? 'disabled' : 'problem';
+    dev.problemCode = problemCode;
+    if (problemCode !== 0) {
+        dev.problemDescription = PROBLEM_CODES[problemCode] || `Device Manager problem code ${problemCode}.`;
+    }
+}
+
+/**
+ * Mark a device as disconnected (phantom) with its last arrival/removal times
+ * Times are normalized to ISO 8601 when Date can parse them and kept verbatim otherwise
+ */
+export function markDisconnected(dev: USBDevice, lastArrival: string, lastRemoval: string): void {
+    const toTime = (value: string) => {
+        const time = Date.parse(value);
+        return isNaN(time) ? value : new Date(time).toISOString();
+    };
+    dev.present = false;
+    if (lastArrival) dev.lastArrival = toTime(lastArrival);
+    if (lastRemoval) dev.lastRemoval = toTime(lastRemoval);
+}
+
+/**
+ * True for devices enumerated with includeProblemDevices that are not working (problem or disabled)
+ */
+export function hasProblem(dev: USBDevice): boolean {
+    return dev.status !== undefined && dev.status !== 'ok';
+}
+
+/**
+ * True for the virtual per-channel children buildUSBTree creates under multi-port COM devices
+ */
+export function isChannelDevice(dev: USBDevice): boolean {
+    return dev.instancePath.includes('#');
+}
+
+/**
+ * COM ports of a physical device, including those buildUSBTree moved to its virtual channel children
+ */
+export function deviceComPorts(dev: USBDevice): ComPortInfo[] {
+    return [...dev.comPorts, ...dev.children.filter(isChannelDevice).flatMap(c => c.comPorts)];
+}
+
+/**
+ * Order port chains segment by segment (1-2 < 1-2-1 < 1-10)
+ */
+export function comparePortChains(a: string, b: string): number {
+    const partsA = a.split('-').map(Number);
+    const partsB = b.split('-').map(Number);
+    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+        const valA = partsA[i] ?? 0;
+        const valB = partsB[i] ?? 0;
+        if (valA !== valB) return valA - valB;
+    }
+    return 0;
+}
+
+/**
+ * Compare dotted driver versions numerically (2.12.36.4 > 2.12.28.0, missing parts count as 0)
+ */
+export function compareDriverVersions(a: string, b: string): number {
+    const partsA = a.split('.').map(part => parseInt(part) || 0);
+    const partsB = b.split('.').map(part => parseInt(part) || 0);
+    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+        const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+}
+
+/**
+ * Driver date as YYYY-MM-DD - registry DriverDate is M-D-YYYY, pnputil prints the display locale's format
+ */
+export function normalizeDriverDate(value: string): string {
+    const pad = (part: string) => part.padStart(2, '0');
+    let match = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(value);
+    if (match) return `${match[1]}-${pad(match[2])}-${pad(match[3])}`;
+    match = /^(\d{1,2})[-/](\d{1,2})[-/](\d{4})/.exec(value);
+    if (match) return `${match[3]}-${pad(match[1])}-${pad(match[2])}`;
+    match = /^(\d{1,2})\.(\d{1,2})\.(\d{4})/.exec(value);
+    if (match) return `${match[3]}-${pad(match[2])}-${pad(match[1])}`;
+    return value.trim();
+}
+
+/**
+ * Order port names numerically within the same prefix (COM3 < COM26, /dev/ttyUSB2 < /dev/ttyUSB10)
+ */
+export function compareComPortNames(a: string, b: string): number {
+    const matchA = /^(.*?)(\d+)$/.exec(a);
+    const matchB = /^(.*?)(\d+)$/.exec(b);
+    if (matchA && matchB && matchA[1] === matchB[1]) {
+        return parseInt(matchA[2]) - parseInt(matchB[2]);
+    }
+    return a < b ? -1 : (a > b ? 1 : 0);
+}
+
+/**
+ * Create a USBDevice from raw enumeration fields, applying the shared serial/parent/name rules
+ */
+export function createUSBDevice(raw: {
+    instancePath: string;
+    vid: string;
+    pid: string;
+    instanceId: string;
+    parentPath: string;
+    portNumber: number;
+    isHub: boolean;
+    rawName: string;
+}): USBDevice {
+    const { instancePath, vid, pid, instanceId, parentPath } = raw;
+
+    // Check if instance ID looks like a real serial (no & characters, reasonable length)
+    const looksLikeSerial = !instanceId.includes('&') && instanceId.length >= 4 && instanceId.length <= 32;
+
+    return {
+        instancePath,
+        vid: vid.toUpperCase(),
+        pid: pid.toUpperCase(),
+        serialNumber: looksLikeSerial ? instanceId : '',
+        instanceId,
+        parentPath: parentPath && !parentPath.startsWith('PCI\\') ? parentPath : null,
+        portNumber: raw.portNumber,
+        isHub: raw.isHub,
+        name: getDeviceName(vid, pid, raw.rawName),
+        comPorts: [],
+        children: [],
+        portChain: '',
+        kernelName: '',
+    };
+}
+
+/**
+ * Parse the DEVICE|... / COMPORT|... / STATUS|... line protocol written by the PowerShell scripts
+ * STATUS|<instance path>|<problem code> lines only appear in captures made with includeProblemDevices,
+ * PHANTOM|... (DEVICE fields, then last arrival and removal before the name) and PHANTOMCOM|... (COMPORT fields;
+ * the owner may also be the FTDIBUS port itself) only in captures made with includeDisconnected
+ * DRIVER|<instance path>|<service>|<provider>|<version>|<date>|<inf> lines carry driver details,
+ * COMDRIVER|<COM port>|<service>|... lines (same fields) those of a COM port's own device node
+ * Truncated lines (e.g. a script killed mid-write) are skipped with a warning
+ */
+export function parseTreeDataOutput(output: string, options: EnumerationOptions = {}, logger: USBTreeLogger = consoleLogger): USBTreeData {
+    const devices = new Map<string, USBDevice>();
+    const comPorts = new Map<string, ComPortLink>();
+    const problemCodes = new Map<string, number>();
+    const drivers = new Map<string, DriverInfo>();
+    const portDrivers = new Map<string, DriverInfo>();
+    const disconnected: DisconnectedData = { devices: new Map(), comPorts: new Map() };
+
+    // False (and warns) if the line has too few fields to be used
+    const complete = (parts: string[], minFields: number, lineNumber: number): boolean => {
+        if (parts.length >= minFields) return true;
+        logger.warn(`Skipping malformed ${parts[0]} line ${lineNumber}: expected ${minFields} fields, got ${parts.length}`);
+        return false;
+    };
+
+    for (const [index, line] of output.split('\n').entries()) {
+        const trimmed = line.trim();
+
+        if (trimmed.startsWith('DEVICE|') || trimmed.startsWith('PHANTOM|')) {
+            const parts = trimmed.split('|');
+            const phantom = parts[0] === 'PHANTOM';
+            const minFields = phantom ? 11 : 9;
+            if (!complete(parts, minFields, index + 1)) continue;
+            const [, instancePath, vid, pid, instanceId, parentPath, portNum, isHubStr] = parts;
+            const name = parts.slice(minFields - 1).join('|');
+
+            const device = createUSBDevice({
+                instancePath,
+                vid,
+                pid,
+                instanceId,
+                parentPath,
+                portNumber: parseInt(portNum) || 0,
+                isHub: isHubStr === 'True',
+                rawName: name,
+            });
+            if (phantom) {
+                markDisconnected(device, parts[8], parts[9]);
+            }
+            (phantom ? disconnected.devices : devices).set(instancePath.toUpperCase(), device);
+        } else if (trimmed.startsWith('COMPORT|') || trimmed.startsWith('PHANTOMCOM|')) {
+            const parts = trimmed.split('|');
+            if (!complete(parts, 5, index + 1)) continue;
+            // Optional 6th field: MI_xx interface number of composite devices
+            const [type, comPort, instancePath, channelStr, kernelName, interfaceStr] = parts;
+            const channel = parseInt(channelStr) || 0;
+            const interfaceNumber = parseInt(interfaceStr);
+            const link: ComPortLink = {
+                instancePath,
+                kernelName: kernelName || '',
+                channel: channel > 0 ? channel : undefined,
+                interfaceNumber: isNaN(interfaceNumber) ? undefined : interfaceNumber,
+            };
+            if (type === 'PHANTOMCOM') {
+                const ftdi = parseFtdiBusId(instancePath);
+                if (ftdi) {
+                    link.instancePath = `USB\\VID_${ftdi.vid}&PID_${ftdi.pid}\\${ftdi.parentInstanceId}`;
+                    link.channel = ftdi.channel;
+                }
+                disconnected.comPorts.set(comPort, link);
+            } else {
+                comPorts.set(comPort, link);
+            }
+        } else if (trimmed.startsWith('STATUS|')) {
+            const parts = trimmed.split('|');
+            if (!complete(parts, 3, index + 1)) continue;
+            problemCodes.set(parts[1].toUpperCase(), parseInt(parts[2]) || 0);
+        } else if (trimmed.startsWith('DRIVER|')) {
+            const parts = trimmed.split('|');
+            if (!complete(parts, 7, index + 1)) continue;
+            const [, instancePath, service, provider, version, date, inf] = parts;
+            drivers.set(instancePath.toUpperCase(), { service, provider, version, date: normalizeDriverDate(date), inf });
+        } else if (trimmed.startsWith('COMDRIVER|')) {
+            const parts = trimmed.split('|');
+            if (!complete(parts, 7, index + 1)) continue;
+            const [, comPort, service, provider, version, date, inf] = parts;
+            portDrivers.set(comPort, { service, provider, version, date: normalizeDriverDate(date), inf });
+        }
+    }
+
+    for (const [key, driver] of drivers) {
+        const dev = devices.get(key) ?? disconnected.devices.get(key);
+        if (dev) dev.driver = driver;
+    }
+
+    for (const [comPort, driver] of portDrivers) {
+        const link = comPorts.get(comPort);
+        if (link) link.driver = driver;
+    }
+
+    for (const [key, dev] of devices) {
+        const problemCode = problemCodes.get(key) ?? 0;
+        if (options.includeProblemDevices) {
+            applyProblemCode(dev, problemCode);
+        } else if (problemCode !== 0) {
+            devices.delete(key);
+        }
+    }
+
+    const data: USBTreeData = { devices, comPorts };
+    if (options.includeDisconnected) {
+        data.disconnected = disconnected;
+    }
+    return data;
+}
+
+/**
+ * Get a flat list of all COM ports with their device info
+ */
+export function getComPortList(tree: USBTree): USBDevice[] {
+    const devices: USBDevice[] = [];
+
+    for (const { device } of tree.comPortMap.values()) {
+        devices.push(device);
+    }
+
+    // Sort by COM port number
+    devices.sort((a, b) => compareComPortNames(a.comPorts[0]?.port || '', b.comPorts[0]?.port || ''));
+
+    return devices;
+}
+
+/**
+ * Get a flat list of devices (excluding Root Hubs) sorted by hierarchy
+ */
+export function getDeviceTable(tree: USBTree): USBDevice[] {
+    const devices: USBDevice[] = [];
+
+    function collectDevices(dev: USBDevice): void {
+        if (dev.vid !== 'ROOT') {
+            devices.push(dev);
+        }
+
+        for (const child of dev.children) {
+            collectDevices(child);
+        }
+    }
+
+    for (const root of tree.rootHubs) {
+        for (const child of root.children) {
+            collectDevices(child);
+        }
+    }
+
+    return devices;
 }
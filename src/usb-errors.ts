@@ -0,0 +1,107 @@
+/**
+ * Error Types and Logging
+ * Every error this package throws extends USBTreeError, apart from AbortErrors and the file errors of the plain
+ * readers readReplayFile(), loadUsbIds() and loadNameOverrides(); enumeration failures say which backend failed and why
+ */
+
+import { USBTreeBackend } from './usb-common';
+
+export interface USBTreeErrorOptions {
+    backend?: USBTreeBackend;
+    cause?: unknown;
+}
+
+export class USBTreeError extends Error {
+    backend?: USBTreeBackend;                  // Enumeration backend that failed (set by the backend layer)
+    readonly cause?: unknown;                  // Underlying error (child process error, JSON error, ...)
+    attempts?: BackendAttempt[];               // Set by getUSBTreeData when every backend failed
+
+    constructor(message: string, options: USBTreeErrorOptions = {}) {
+        super(message);
+        this.name = new.target.name;
+        this.backend = options.backend;
+        this.cause = options.cause;
+    }
+}
+
+// powershell.exe is not on the PATH (Windows Server Core, containers, non-Windows hosts without pwsh)
+export class PowerShellNotFoundError extends USBTreeError { }
+
+export class EnumerationTimeoutError extends USBTreeError {
+    constructor(message: string, public readonly timeout: number, options: USBTreeErrorOptions = {}) {
+        super(message, options);
+    }
+}
+
+// A backend command failed or could not be started
+export class BackendFailedError extends USBTreeError {
+    constructor(
+        message: string,
+        public readonly exitCode: number | null,   // null if the process never ran or was killed
+        public readonly stderr: string,
+        options: USBTreeErrorOptions = {}
+    ) {
+        super(message, options);
+    }
+}
+
+// Backend output that doesn't follow the expected format
+export class ParseError extends USBTreeError {
+    constructor(
+        message: string,
+        public readonly line: string,              // Offending line (for "no devices": the first line of output)
+        public readonly lineNumber: number,        // 1-based, 0 if not tied to one line
+        options: USBTreeErrorOptions = {}
+    ) {
+        super(message, options);
+    }
+}
+
+// One backend tried by getUSBTreeData / getUSBTreeDataAsync
+export interface BackendAttempt {
+    backend: USBTreeBackend;
+    ok: boolean;
+    duration: number;                          // Milliseconds
+    error?: USBTreeError;
+}
+
+export interface USBTreeLogger {
+    warn(message: string): void;
+    debug?(message: string): void;
+}
+
+export const consoleLogger: USBTreeLogger = {
+    warn: message => console.warn(message),
+};
+
+// Properties child_process errors carry (exit status, output); none for thrown non-objects such as null or a string
+export interface ProcessErrorDetails {
+    code?: string | number;
+    status?: number | null;
+    killed?: boolean;
+    signal?: string | null;
+    stdout?: string | Buffer;
+    stderr?: string | Buffer;
+}
+
+export function processErrorDetails(error: unknown): ProcessErrorDetails {
+    return typeof error === 'object' && error !== null ? error as ProcessErrorDetails : {};
+}
+
+/**
+ * Tag an error with the backend it came from; anything that isn't a USBTreeError becomes a BackendFailedError
+ * AbortErrors pass through unchanged - cancellation is not a backend failure
+ */
+export function toBackendError(error: unknown, backend: USBTreeBackend): Error {
+    if (error instanceof USBTreeError) {
+        error.backend = error.backend ?? backend;
+        return error;
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+        return error;
+    }
+    const details = processErrorDetails(error);
+    const exitCode = typeof details.status === 'number' ? details.status : typeof details.code === 'number' ? details.code : null;
+    const message = error instanceof Error ? error.message : String(error);
+    return new BackendFailedError(`${backend} enumeration failed: ${message}`, exitCode, details.stderr ? details.stderr.toString() : '', { backend, cause: error });
+}
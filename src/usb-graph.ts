@@ -0,0 +1,147 @@
+/**
+ * Graph Export
+ * Hub topology as Graphviz DOT or Mermaid flowchart, for lab documentation
+ */
+
+import { USBDevice, USBTree, isChannelDevice } from './usb-common';
+
+export interface GraphOptions {
+    prefix?: string;           // Only render the subtree at this port chain (e.g. "2-3"), default: whole tree
+    direction?: 'TB' | 'LR';   // Layout direction (default: LR)
+    serial?: boolean;          // Show serial numbers (default: true)
+    comPorts?: boolean;        // Show COM ports (default: true)
+    title?: string;
+}
+
+type NodeKind = 'root' | 'hub' | 'channel' | 'device';
+
+function nodeKind(dev: USBDevice): NodeKind {
+    if (dev.vid === 'ROOT') return 'root';
+    if (dev.isHub) return 'hub';
+    if (isChannelDevice(dev)) return 'channel';
+    return 'device';
+}
+
+function labelLines(dev: USBDevice, options: GraphOptions): string[] {
+    const lines = [dev.vid === 'ROOT' ? `USB Root Hub (${dev.portChain})` : dev.name];
+    if (dev.vid !== 'ROOT') {
+        lines.push(`${dev.vid}:${dev.pid}  [${dev.portChain}]`);
+    }
+    if (options.serial !== false && dev.serialNumber) {
+        lines.push(`S/N: ${dev.serialNumber}`);
+    }
+    // Channel nodes are named after their COM port already
+    if (options.comPorts !== false && dev.comPorts.length > 0 && !isChannelDevice(dev)) {
+        lines.push(dev.comPorts.map(c => c.port).join(', '));
+    }
+    return lines;
+}
+
+// Top-most devices of the requested subtree (the device at the prefix, or everything below it)
+function graphRoots(tree: USBTree, prefix: string | undefined): USBDevice[] {
+    if (!prefix) return tree.rootHubs;
+
+    const roots: USBDevice[] = [];
+    function visit(dev: USBDevice): void {
+        if (dev.portChain === prefix || dev.portChain.startsWith(`${prefix}-`)) {
+            roots.push(dev);
+            return;
+        }
+        dev.children.forEach(visit);
+    }
+    tree.rootHubs.forEach(visit);
+    return roots;
+}
+
+// Walk the subtree once, assigning stable node ids (port chains are not unique across Windows root hubs)
+function walk(tree: USBTree, options: GraphOptions, visitNode: (dev: USBDevice, id: string) => void, visitEdge: (parentId: string, childId: string, child: USBDevice) => void): void {
+    let next = 0;
+    function visit(dev: USBDevice): string {
+        const id = `n${next++}`;
+        visitNode(dev, id);
+        for (const child of dev.children) {
+            visitEdge(id, visit(child), child);
+        }
+        return id;
+    }
+    graphRoots(tree, options.prefix).forEach(visit);
+}
+
+function dotString(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+const DOT_STYLES: Record<NodeKind, string> = {
+    root: 'shape=box3d, style=filled, fillcolor="#d0d7de"',
+    hub: 'shape=box3d, style=filled, fillcolor="#eaeef2"',
+    channel: 'shape=box, style="rounded,dashed"',
+    device: 'shape=box, style=rounded',
+};
+
+/**
+ * Graphviz DOT digraph - render with `dot -Tsvg usb.dot -o usb.svg`
+ * Hubs are 3D boxes, virtual channel nodes (FTDI A/B, ...) dashed; edges carry the port number
+ */
+export function toDot(tree: USBTree, options: GraphOptions = {}): string {
+    const lines = [
+        'digraph usb {',
+        `    rankdir=${options.direction || 'LR'};`,
+        '    node [fontname="Helvetica", fontsize=10];',
+        '    edge [fontname="Helvetica", fontsize=9];',
+    ];
+    if (options.title) {
+        lines.push(`    label=${dotString(options.title)};`, '    labelloc=t;');
+    }
+
+    walk(tree, options,
+        (dev, id) => lines.push(`    ${id} [label=${dotString(labelLines(dev, options).join('\n'))}, ${DOT_STYLES[nodeKind(dev)]}];`),
+        (parentId, childId, child) => lines.push(`    ${parentId} -> ${childId} [label=${dotString(String(child.portNumber))}];`));
+
+    lines.push('}');
+    return lines.join('\n');
+}
+
+function mermaidText(value: string): string {
+    return value.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+}
+
+// Node shape per kind: hubs as subroutine boxes, channels as stadiums
+const MERMAID_SHAPES: Record<NodeKind, [string, string]> = {
+    root: ['[[', ']]'],
+    hub: ['[[', ']]'],
+    channel: ['([', '])'],
+    device: ['[', ']'],
+};
+
+/**
+ * Mermaid flowchart (renders in GitHub/GitLab Markdown and most wikis inside a ```mermaid block)
+ */
+export function toMermaid(tree: USBTree, options: GraphOptions = {}): string {
+    const lines: string[] = [];
+    if (options.title) {
+        lines.push('---', `title: ${options.title}`, '---');
+    }
+    lines.push(`flowchart ${options.direction || 'LR'}`);
+
+    const classes: Record<NodeKind, string[]> = { root: [], hub: [], channel: [], device: [] };
+    walk(tree, options,
+        (dev, id) => {
+            const kind = nodeKind(dev);
+            const [open, close] = MERMAID_SHAPES[kind];
+            lines.push(`    ${id}${open}"${labelLines(dev, options).map(mermaidText).join('<br/>')}"${close}`);
+            classes[kind].push(id);
+        },
+        (parentId, childId, child) => lines.push(`    ${parentId} -->|${child.portNumber}| ${childId}`));
+
+    lines.push(
+        '    classDef root fill:#d0d7de,stroke:#57606a;',
+        '    classDef hub fill:#eaeef2,stroke:#57606a;',
+        '    classDef channel stroke-dasharray: 5 5;',
+    );
+    for (const kind of ['root', 'hub', 'channel'] as NodeKind[]) {
+        if (classes[kind].length > 0) {
+            lines.push(`    class ${classes[kind].join(',')} ${kind};`);
+        }
+    }
+    return lines.join('\n');
+}
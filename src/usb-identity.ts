@@ -0,0 +1,230 @@
+/**
+ * Device Identity Tracking
+ * Gives each board a stable logical identity keyed by its port chain, so a board that changes
+ * VID/PID or serial between application and bootloader mode (ESP32-S3, STM32 DFU, ...) stays the same board
+ */
+
+import { USBDevice, USBTree, isChannelDevice, deviceComPorts, comparePortChains } from './usb-common';
+import { matchPortChain } from './usb-query';
+import type { USBTreeWatcher } from './usb-tree-watcher';
+
+// VID:PID pairs that are one board in different modes, e.g. ESP32-S3 USB-JTAG/serial and ROM download mode
+export interface IdentityGroup {
+    name?: string;
+    ids: string[];                     // "VID:PID", PID may be * - e.g. ["303A:1001", "303A:0002"]
+    modes?: Record<string, string>;    // Mode name per VID:PID, e.g. { "303A:0002": "bootloader" }
+}
+
+export interface IdentityTrackerOptions {
+    groups?: IdentityGroup[];
+    strict?: boolean;                  // A different device on a known port is a new board unless a group links both (default: false, same port = same board)
+    chains?: string[];                 // Port chain patterns to track (default: every non-hub device)
+}
+
+// What a board looked like in one snapshot
+export interface DeviceState {
+    vid: string;
+    pid: string;
+    serialNumber: string;
+    name: string;
+    instancePath: string;
+    comPorts: string[];                // Including the ports of its channel children
+    mode?: string;                     // From the matching group's modes
+}
+
+export type TransitionKind = 'attached' | 'detached' | 'mode-change' | 'com-change';
+
+export interface IdentityTransition {
+    identity: string;
+    portChain: string;
+    kind: TransitionKind;
+    before: DeviceState | null;        // Last known state (null on first sight)
+    after: DeviceState | null;         // null when detached
+    snapshot: number;                  // Index of the update() call, from 0
+    timestamp: string;
+}
+
+export interface TrackedIdentity {
+    id: string;                        // Port chain, with "#2", "#3" ... when strict mode sees another board there
+    portChain: string;
+    group?: string;
+    present: boolean;
+    state: DeviceState;                // Current state, or last known state while detached
+    device: USBDevice | null;          // Device in the latest snapshot (null while detached)
+    firstSeen: string;
+    lastSeen: string;
+    transitions: IdentityTransition[];
+}
+
+function idMatches(pattern: string, vid: string, pid: string): boolean {
+    const [pVid, pPid = '*'] = pattern.toUpperCase().split(':');
+    return pVid === vid.toUpperCase() && (pPid === '*' || pPid === pid.toUpperCase());
+}
+
+/**
+ * Follows boards across any number of snapshots
+ *
+ * ```typescript
+ * const tracker = new IdentityTracker({ groups: [{ name: 'esp32-s3', ids: ['303A:1001', '303A:0002'] }] });
+ * tracker.update(buildUSBTree());
+ * // ... reset into the bootloader ...
+ * tracker.update(buildUSBTree());
+ * tracker.comPort('1-1-3-2');    // current COM port of the board on 1-1-3-2
+ * ```
+ */
+export class IdentityTracker {
+    private readonly groups: IdentityGroup[];
+    private readonly strict: boolean;
+    private readonly chains?: string[];
+    private readonly byChain = new Map<string, TrackedIdentity>();     // Current identity per port chain
+    private readonly retired: TrackedIdentity[] = [];                  // Identities replaced by another board (strict mode)
+    private readonly log: IdentityTransition[] = [];
+    private snapshots = 0;
+
+    constructor(options: IdentityTrackerOptions = {}) {
+        this.groups = options.groups || [];
+        this.strict = options.strict ?? false;
+        this.chains = options.chains;
+    }
+
+    /**
+     * Feed the next snapshot and return the transitions it caused
+     */
+    update(tree: USBTree, time: Date = new Date()): IdentityTransition[] {
+        const snapshot = this.snapshots++;
+        const timestamp = time.toISOString();
+        const transitions: IdentityTransition[] = [];
+        const record = (identity: TrackedIdentity, kind: TransitionKind, before: DeviceState | null, after: DeviceState | null) => {
+            const transition = { identity: identity.id, portChain: identity.portChain, kind, before, after, snapshot, timestamp };
+            identity.transitions.push(transition);
+            transitions.push(transition);
+        };
+
+        const current = new Map<string, USBDevice>();
+        for (const dev of tree.allDevices.values()) {
+            if (dev.vid === 'ROOT' || dev.isHub || isChannelDevice(dev)) continue;
+            if (this.chains && !this.chains.some(pattern => matchPortChain(dev.portChain, pattern))) continue;
+            current.set(dev.portChain, dev);
+        }
+
+        for (const [chain, identity] of this.byChain) {
+            if (identity.present && !current.has(chain)) {
+                identity.present = false;
+                identity.device = null;
+                record(identity, 'detached', identity.state, null);
+            }
+        }
+
+        for (const [chain, dev] of current) {
+            const state = this.stateOf(dev);
+            let identity = this.byChain.get(chain);
+
+            if (identity && !this.sameBoard(identity.state, state)) {
+                if (identity.present) {
+                    record(identity, 'detached', identity.state, null);
+                }
+                this.retired.push({ ...identity, present: false, device: null });
+                identity = undefined;
+            }
+
+            if (!identity) {
+                identity = {
+                    id: this.nextId(chain),
+                    portChain: chain,
+                    group: this.groupOf(state.vid, state.pid)?.name,
+                    present: true,
+                    state,
+                    device: dev,
+                    firstSeen: timestamp,
+                    lastSeen: timestamp,
+                    transitions: [],
+                };
+                this.byChain.set(chain, identity);
+                record(identity, 'attached', null, state);
+                continue;
+            }
+
+            const before = identity.state;
+            const idChanged = before.vid !== state.vid || before.pid !== state.pid || before.serialNumber !== state.serialNumber;
+            const comChanged = before.comPorts.join(',') !== state.comPorts.join(',');
+            if (idChanged) {
+                record(identity, 'mode-change', before, state);
+            } else if (comChanged) {
+                record(identity, 'com-change', before, state);
+            } else if (!identity.present) {
+                record(identity, 'attached', before, state);
+            }
+
+            identity.group = identity.group ?? this.groupOf(state.vid, state.pid)?.name;
+            identity.present = true;
+            identity.state = state;
+            identity.device = dev;
+            identity.lastSeen = timestamp;
+        }
+
+        this.log.push(...transitions);
+        return transitions;
+    }
+
+    /**
+     * Update on every snapshot a watcher takes; returns a function that stops following
+     */
+    follow(watcher: USBTreeWatcher): () => void {
+        const listener = (tree: USBTree) => { this.update(tree); };
+        watcher.on('refresh', listener);
+        return () => { watcher.off('refresh', listener); };
+    }
+
+    /** Current identity on a port chain (also while detached) */
+    get(portChain: string): TrackedIdentity | undefined {
+        return this.byChain.get(portChain);
+    }
+
+    /** First COM port the board on this port chain has now (undefined while detached or without a port) */
+    comPort(portChain: string): string | undefined {
+        const identity = this.byChain.get(portChain);
+        return identity?.present ? identity.state.comPorts[0] : undefined;
+    }
+
+    /** All identities, current ones first, sorted by port chain */
+    identities(includeRetired = false): TrackedIdentity[] {
+        const list = [...this.byChain.values()].sort((a, b) => comparePortChains(a.portChain, b.portChain));
+        return includeRetired ? [...list, ...this.retired] : list;
+    }
+
+    /** Every transition so far, oldest first (optionally for one port chain) */
+    history(portChain?: string): IdentityTransition[] {
+        return portChain === undefined ? [...this.log] : this.log.filter(t => t.portChain === portChain);
+    }
+
+    private groupOf(vid: string, pid: string): IdentityGroup | undefined {
+        return this.groups.find(g => g.ids.some(id => idMatches(id, vid, pid)));
+    }
+
+    private stateOf(dev: USBDevice): DeviceState {
+        const group = this.groupOf(dev.vid, dev.pid);
+        const modeKey = group && Object.keys(group.modes || {}).find(id => idMatches(id, dev.vid, dev.pid));
+        const state: DeviceState = {
+            vid: dev.vid,
+            pid: dev.pid,
+            serialNumber: dev.serialNumber,
+            name: dev.name,
+            instancePath: dev.instancePath,
+            comPorts: deviceComPorts(dev).map(c => c.port),
+        };
+        if (modeKey) state.mode = group!.modes![modeKey];
+        return state;
+    }
+
+    private sameBoard(before: DeviceState, after: DeviceState): boolean {
+        if (!this.strict) return true;
+        if (before.vid === after.vid && before.pid === after.pid && before.serialNumber === after.serialNumber) return true;
+        const group = this.groupOf(before.vid, before.pid);
+        return group !== undefined && group === this.groupOf(after.vid, after.pid);
+    }
+
+    private nextId(chain: string): string {
+        const previous = this.retired.filter(i => i.portChain === chain).length;
+        return previous === 0 ? chain : `${chain}#${previous + 1}`;
+    }
+}
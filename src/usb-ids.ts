@@ -0,0 +1,172 @@
+/**
+ * USB ID Database
+ * Loads vendor/product/interface names from the standard usb.ids file and JSON override files.
+ * Files are only read on the first lookup after configureDeviceNames(), so startup stays fast;
+ * configureDeviceNames() only checks that they exist, so a bad path fails there instead of in the middle of an enumeration.
+ */
+
+import { readFileSync, statSync } from 'fs';
+import { USBTreeError } from './usb-errors';
+
+export interface UsbIdsDatabase {
+    vendors: Map<string, string>;      // 'VVVV' -> name
+    products: Map<string, string>;     // 'VVVV:PPPP' -> name
+    interfaces: Map<string, string>;   // 'VVVV:PPPP:II' -> name
+}
+
+// JSON override file layout - keys are hex IDs, case-insensitive
+export interface DeviceNameOverrides {
+    vendors?: Record<string, string>;
+    products?: Record<string, string>;      // "0403:6010"
+    interfaces?: Record<string, string>;    // "0403:6010:01"
+}
+
+export interface DeviceNameSources {
+    usbIdsPath?: string;       // Path to a usb.ids file (e.g. /usr/share/hwdata/usb.ids)
+    overrides?: string[];      // JSON override files; later files win over earlier ones
+}
+
+function emptyDatabase(): UsbIdsDatabase {
+    return { vendors: new Map(), products: new Map(), interfaces: new Map() };
+}
+
+/**
+ * Parse usb.ids text: vendor lines, tab-indented device lines and double-tab interface lines
+ * Parsing stops at the first non-vendor section (C class, AT, HID, ...)
+ */
+export function parseUsbIds(text: string): UsbIdsDatabase {
+    const db = emptyDatabase();
+    let vendor: string | null = null;
+    let product: string | null = null;
+
+    for (const line of text.split(/\r?\n/)) {
+        if (!line || line.startsWith('#')) continue;
+
+        const vendorMatch = /^([0-9a-fA-F]{4})\s+(.+)$/.exec(line);
+        if (vendorMatch) {
+            vendor = vendorMatch[1].toUpperCase();
+            product = null;
+            db.vendors.set(vendor, vendorMatch[2].trim());
+            continue;
+        }
+
+        const interfaceMatch = /^\t\t([0-9a-fA-F]{2,4})\s+(.+)$/.exec(line);
+        if (interfaceMatch && vendor && product) {
+            db.interfaces.set(`${vendor}:${product}:${interfaceMatch[1].toUpperCase().padStart(2, '0')}`, interfaceMatch[2].trim());
+            continue;
+        }
+
+        const productMatch = /^\t([0-9a-fA-F]{4})\s+(.+)$/.exec(line);
+        if (productMatch && vendor) {
+            product = productMatch[1].toUpperCase();
+            db.products.set(`${vendor}:${product}`, productMatch[2].trim());
+            continue;
+        }
+
+        if (!line.startsWith('\t')) {
+            // "C 00  ...", "AT 0 ..." etc. - device class and other tables follow the vendor list
+            break;
+        }
+    }
+
+    return db;
+}
+
+/**
+ * Read a usb.ids file (usb.ids is traditionally Latin-1 encoded)
+ */
+export function loadUsbIds(filePath: string): UsbIdsDatabase {
+    return parseUsbIds(readFileSync(filePath, 'latin1'));
+}
+
+/**
+ * Read a JSON override file
+ */
+export function loadNameOverrides(filePath: string): UsbIdsDatabase {
+    const data: DeviceNameOverrides = JSON.parse(readFileSync(filePath, 'utf8'));
+    const db = emptyDatabase();
+    for (const [id, name] of Object.entries(data.vendors || {})) db.vendors.set(id.toUpperCase(), name);
+    for (const [id, name] of Object.entries(data.products || {})) db.products.set(id.toUpperCase(), name);
+    for (const [id, name] of Object.entries(data.interfaces || {})) db.interfaces.set(id.toUpperCase(), name);
+    return db;
+}
+
+let sources: DeviceNameSources = {};
+let databases: UsbIdsDatabase[] | null = [];   // Highest precedence first; null = configured but not loaded yet
+
+function checkFile(filePath: string, what: string): void {
+    let isFile: boolean;
+    try {
+        isFile = statSync(filePath).isFile();
+    } catch (error) {
+        throw new USBTreeError(`Cannot load ${what} ${filePath}: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+    }
+    if (!isFile) throw new USBTreeError(`Cannot load ${what} ${filePath}: not a file`);
+}
+
+/**
+ * Configure the external name sources (precedence: user overrides > usb.ids > built-in tables)
+ * Files are checked now but only read on the first name lookup; call with {} to go back to the built-in tables only
+ * @throws USBTreeError if a file does not exist - lookups then use the built-in tables only
+ */
+export function configureDeviceNames(config: DeviceNameSources): void {
+    sources = {};
+    databases = [];
+    for (const file of config.overrides || []) checkFile(file, 'device name overrides');
+    if (config.usbIdsPath) checkFile(config.usbIdsPath, 'usb.ids file');
+    sources = { ...config };
+    databases = null;
+}
+
+/**
+ * Load the configured files on first use
+ * @throws USBTreeError if a file cannot be read or parsed - later lookups use the built-in tables only
+ */
+function getDatabases(): UsbIdsDatabase[] {
+    if (databases === null) {
+        databases = [];
+        const loaded: UsbIdsDatabase[] = [];
+        for (const file of [...(sources.overrides || [])].reverse()) {
+            try {
+                loaded.push(loadNameOverrides(file));
+            } catch (error) {
+                throw new USBTreeError(`Cannot load device name overrides ${file}: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+            }
+        }
+        if (sources.usbIdsPath) {
+            try {
+                loaded.push(loadUsbIds(sources.usbIdsPath));
+            } catch (error) {
+                throw new USBTreeError(`Cannot load usb.ids file ${sources.usbIdsPath}: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+            }
+        }
+        databases = loaded;
+    }
+    return databases;
+}
+
+function lookup(table: keyof UsbIdsDatabase, key: string): string | undefined {
+    for (const db of getDatabases()) {
+        const name = db[table].get(key.toUpperCase());
+        if (name) return name;
+    }
+    return undefined;
+}
+
+/** Vendor name from overrides / usb.ids (undefined if neither knows it) */
+export function lookupVendorName(vid: string): string | undefined {
+    return lookup('vendors', vid);
+}
+
+/** Product name from overrides / usb.ids (undefined if neither knows it) */
+export function lookupProductName(vid: string, pid: string): string | undefined {
+    return lookup('products', `${vid}:${pid}`);
+}
+
+/** Interface name (MI_xx) from overrides / usb.ids (undefined if neither knows it) */
+export function lookupInterfaceName(vid: string, pid: string, interfaceNumber: number | string): string | undefined {
+    const iface = typeof interfaceNumber === 'number'
+        ? interfaceNumber.toString(16).padStart(2, '0')
+        : interfaceNumber.padStart(2, '0');
+    return lookup('interfaces', `${vid}:${pid}:${iface}`);
+}
@@ -0,0 +1,334 @@
+/**
+ * Device Leases
+ * Exclusive, cross-process claims on devices/COM ports for parallel test workers on one station
+ * Each lease is a lock file created atomically (O_EXCL) in a shared directory; leases of crashed
+ * workers (dead process or expired TTL) are taken over automatically. A multi-channel bridge and its
+ * channel children exclude each other, while the channels themselves can be leased separately
+ */
+
+import { openSync, writeSync, closeSync, readFileSync, readdirSync, unlinkSync, renameSync, linkSync, mkdirSync, writeFileSync } from 'fs';
+import { createHash, randomBytes } from 'crypto';
+import { hostname, tmpdir } from 'os';
+import { join } from 'path';
+import { USBDevice, ComPortInfo, USBTree, comparePortChains, isChannelDevice, deviceComPorts } from './usb-common';
+import { buildUSBTreeAsync } from './usb-tree';
+import { DeviceSelector, parseSelector, query, formatSelector } from './usb-query';
+import { USBTreeError } from './usb-errors';
+
+export const DEFAULT_LEASE_DIR = join(tmpdir(), 'usb-tree-win-leases');
+
+export interface LeaseManagerOptions {
+    dir?: string;                                   // Lock directory shared by all workers (default: <tmp>/usb-tree-win-leases)
+    source?: () => USBTree | Promise<USBTree>;      // Tree used by acquire() (default: buildUSBTreeAsync)
+}
+
+export interface AcquireOptions {
+    ttl?: number;              // Lease lifetime in ms unless renewed (default 15 min)
+    owner?: string;            // Shown by `lease list` (default: <host>:<pid>)
+    wait?: number;             // Keep trying this many ms while every match is leased (default 0)
+    pollInterval?: number;     // Between attempts while waiting (default 1000)
+}
+
+// Contents of a lock file
+export interface LeaseRecord {
+    key: string;               // Leased device's instance path (upper case)
+    portChain: string;
+    comPort: string | null;
+    vid: string;
+    pid: string;
+    serialNumber: string;
+    name: string;
+    owner: string;
+    host: string;
+    processId: number;
+    token: string;             // Random per lease - only the holder's release() removes the file
+    acquiredAt: string;
+    expiresAt: string;
+}
+
+export interface Lease {
+    record: LeaseRecord;
+    device: USBDevice;
+    comPort?: ComPortInfo;     // First COM port of the device (the channel's port for channel devices, channel A's for a whole bridge)
+    renew(ttl?: number): void;
+    release(): void;
+}
+
+export type LeaseErrorReason = 'not-found' | 'busy' | 'lost';
+
+export class LeaseError extends USBTreeError {
+    constructor(
+        message: string,
+        public readonly selector: string,                // Selector text (the device key for 'lost')
+        public readonly reason: LeaseErrorReason,
+        public readonly holders: LeaseRecord[] = []      // Current leases on the matching devices
+    ) {
+        super(message);
+        this.name = 'LeaseError';
+    }
+}
+
+const DEFAULT_TTL = 15 * 60 * 1000;
+
+function processAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        // EPERM: the process exists but belongs to another user
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
+
+/**
+ * A lease nobody holds any more: expired, or its process on this host is gone
+ */
+export function isLeaseStale(record: LeaseRecord, now = Date.now()): boolean {
+    if (Date.parse(record.expiresAt) <= now) return true;
+    return record.host === hostname() && !processAlive(record.processId);
+}
+
+function readRecord(file: string): LeaseRecord | null {
+    try {
+        return JSON.parse(readFileSync(file, 'utf8')) as LeaseRecord;
+    } catch {
+        return null;           // Gone, or half-written by a worker that is creating it right now
+    }
+}
+
+// Lock file -> token of every lease this process holds, removed on exit by one shared listener
+const heldLeases = new Map<string, string>();
+let exitListenerInstalled = false;
+
+function holdLease(file: string, token: string): void {
+    heldLeases.set(file, token);
+    if (!exitListenerInstalled) {
+        exitListenerInstalled = true;
+        process.once('exit', () => {
+            for (const [held, heldToken] of heldLeases) {
+                if (readRecord(held)?.token === heldToken) {
+                    try { unlinkSync(held); } catch { }
+                }
+            }
+        });
+    }
+}
+
+// Keys that must not be leased at the same time: the bridge of a channel child, the channel children of a bridge
+function relatedKeys(device: USBDevice): string[] {
+    if (isChannelDevice(device)) {
+        return device.parentPath ? [device.parentPath.toUpperCase()] : [];
+    }
+    return device.children.filter(isChannelDevice).map(child => child.instancePath.toUpperCase());
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Hands out exclusive leases on devices matched by selector
+ *
+ * ```typescript
+ * const leases = new LeaseManager();
+ * const lease = await leases.acquire('vid=0403 pid=6010 role=Serial', { ttl: 600000, owner: 'worker-3' });
+ * try {
+ *     openSerial(lease.comPort!.port);
+ * } finally {
+ *     lease.release();
+ * }
+ * ```
+ */
+export class LeaseManager {
+    readonly dir: string;
+    private readonly source: () => USBTree | Promise<USBTree>;
+
+    constructor(options: LeaseManagerOptions = {}) {
+        this.dir = options.dir ?? DEFAULT_LEASE_DIR;
+        this.source = options.source ?? (() => buildUSBTreeAsync());
+    }
+
+    /**
+     * Lease the first free matching device (by port chain), enumerating again while waiting
+     * @throws LeaseError 'not-found' if nothing matches, 'busy' if every match stays leased
+     */
+    async acquire(selector: string | DeviceSelector, options: AcquireOptions = {}): Promise<Lease> {
+        const deadline = Date.now() + (options.wait ?? 0);
+        while (true) {
+            try {
+                return this.acquireFrom(await this.source(), selector, options);
+            } catch (error) {
+                if (!(error instanceof LeaseError) || Date.now() >= deadline) throw error;
+            }
+            await delay(Math.min(options.pollInterval ?? 1000, Math.max(0, deadline - Date.now())));
+        }
+    }
+
+    /**
+     * Lease the first free matching device of an existing tree (no waiting)
+     */
+    acquireFrom(tree: USBTree, selector: string | DeviceSelector, options: AcquireOptions = {}): Lease {
+        const sel = typeof selector === 'string' ? parseSelector(selector) : selector;
+        const selectorText = formatSelector(sel);
+        const candidates = query(tree, sel);
+        if (candidates.length === 0) {
+            throw new LeaseError(`"${selectorText}" matches no connected device`, selectorText, 'not-found');
+        }
+
+        try {
+            mkdirSync(this.dir, { recursive: true });
+        } catch (error) {
+            throw this.fileError(error);
+        }
+        const holders: LeaseRecord[] = [];
+        for (const device of candidates) {
+            const lease = this.tryLock(device, options);
+            if ('release' in lease) return lease;
+            holders.push(lease);
+        }
+
+        const list = holders.map(h => `${h.portChain} (${h.owner})`).join(', ');
+        throw new LeaseError(`Every device matching "${selectorText}" is leased: ${list}`, selectorText, 'busy', holders);
+    }
+
+    /**
+     * Active leases, oldest first; stale lock files are removed on the way
+     */
+    list(): LeaseRecord[] {
+        let files: string[];
+        try {
+            files = readdirSync(this.dir).filter(f => f.endsWith('.lock'));
+        } catch {
+            return [];
+        }
+
+        const active: LeaseRecord[] = [];
+        for (const name of files) {
+            const file = join(this.dir, name);
+            const record = readRecord(file);
+            if (record && isLeaseStale(record)) {
+                this.takeOverStale(file);
+            } else if (record) {
+                active.push(record);
+            }
+        }
+        return active.sort((a, b) => a.acquiredAt.localeCompare(b.acquiredAt) || comparePortChains(a.portChain, b.portChain));
+    }
+
+    private lockFile(key: string): string {
+        return join(this.dir, `${createHash('sha1').update(key).digest('hex').slice(0, 16)}.lock`);
+    }
+
+    // The new lease, or the record of whoever holds the device
+    private tryLock(device: USBDevice, options: AcquireOptions): Lease | LeaseRecord {
+        const key = device.instancePath.toUpperCase();
+        const file = this.lockFile(key);
+        const now = Date.now();
+        const record: LeaseRecord = {
+            key,
+            portChain: device.portChain,
+            comPort: deviceComPorts(device)[0]?.port ?? null,
+            vid: device.vid,
+            pid: device.pid,
+            serialNumber: device.serialNumber,
+            name: device.name,
+            owner: options.owner ?? `${hostname()}:${process.pid}`,
+            host: hostname(),
+            processId: process.pid,
+            token: randomBytes(8).toString('hex'),
+            acquiredAt: new Date(now).toISOString(),
+            expiresAt: new Date(now + (options.ttl ?? DEFAULT_TTL)).toISOString(),
+        };
+
+        for (let attempt = 0; attempt < 2; attempt++) {
+            try {
+                const fd = openSync(file, 'wx');
+                try {
+                    writeSync(fd, JSON.stringify(record, null, 2));
+                } finally {
+                    closeSync(fd);
+                }
+                // Both sides may back off when a bridge and one of its channels are locked at the same moment - never both win
+                const related = this.activeLease(relatedKeys(device));
+                if (related) {
+                    unlinkSync(file);
+                    return related;
+                }
+                holdLease(file, record.token);
+                return this.lease(file, record, device);
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw this.fileError(error);
+            }
+
+            const holder = readRecord(file);
+            if (!holder || !isLeaseStale(holder) || !this.takeOverStale(file)) {
+                return holder ?? { ...record, owner: 'unknown (lock file being written)' };
+            }
+        }
+        return readRecord(file) ?? record;
+    }
+
+    // The lock directory is missing, read-only, on a full disk, ...
+    private fileError(error: unknown): USBTreeError {
+        return new USBTreeError(`Cannot write leases in ${this.dir}: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+    }
+
+    // First live lease on one of the keys
+    private activeLease(keys: string[]): LeaseRecord | null {
+        for (const key of keys) {
+            const record = readRecord(this.lockFile(key));
+            if (record && !isLeaseStale(record)) return record;
+        }
+        return null;
+    }
+
+    /**
+     * Remove a stale lock file; false if another worker got there first
+     * The file is renamed away first (atomic), then checked again - if it turned out to be a fresh lease
+     * another worker just took over, it is linked back
+     */
+    private takeOverStale(file: string): boolean {
+        const aside = `${file}.${process.pid}.${randomBytes(4).toString('hex')}`;
+        try {
+            renameSync(file, aside);
+        } catch {
+            return false;
+        }
+        const record = readRecord(aside);
+        if (record && !isLeaseStale(record)) {
+            try { linkSync(aside, file); } catch { }
+            try { unlinkSync(aside); } catch { }
+            return false;
+        }
+        try { unlinkSync(aside); } catch { }
+        return true;
+    }
+
+    private removeIfOwned(file: string, token: string): void {
+        if (readRecord(file)?.token === token) {
+            try { unlinkSync(file); } catch { }
+        }
+        heldLeases.delete(file);
+    }
+
+    private lease(file: string, record: LeaseRecord, device: USBDevice): Lease {
+        return {
+            record,
+            device,
+            comPort: deviceComPorts(device)[0],
+            renew: (ttl = DEFAULT_TTL) => {
+                const current = readRecord(file);
+                if (current?.token !== record.token) {
+                    throw new LeaseError(`Lease on ${record.portChain} was lost (expired and taken over)`, record.key, 'lost', current ? [current] : []);
+                }
+                record.expiresAt = new Date(Date.now() + ttl).toISOString();
+                try {
+                    writeFileSync(file, JSON.stringify(record, null, 2));
+                } catch (error) {
+                    throw this.fileError(error);
+                }
+            },
+            release: () => this.removeIfOwned(file, record.token),
+        };
+    }
+}
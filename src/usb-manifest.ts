@@ -0,0 +1,239 @@
+/**
+ * Topology Manifest
+ * Declare a test rig's expected wiring in JSON and validate a live USBTree against it
+ */
+
+import { readFileSync } from 'fs';
+import { USBDevice, USBTree, isChannelDevice, deviceComPorts, comparePortChains } from './usb-common';
+import { matchGlob, matchPortChain } from './usb-query';
+import { USBTreeError } from './usb-errors';
+
+export interface ManifestDevice {
+    chain: string;                 // Expected port chain, e.g. "2-4-4"
+    vid?: string;
+    pid?: string;
+    serial?: string;               // Glob (* and ?), case-insensitive
+    label?: string;                // Free text for reports, e.g. "power analyzer"
+    channels?: number | string[];  // COM ports expected: a count, or channel names/roles (["A", "B"] or ["JTAG", "Serial"])
+    optional?: boolean;            // Not reported when missing
+}
+
+export interface TopologyManifest {
+    name?: string;
+    devices: ManifestDevice[];
+    allowUnexpected?: boolean;     // Don't report devices the manifest doesn't list
+    scope?: string[];              // Port chain patterns checked for unexpected devices (default: whole tree)
+    includeHubs?: boolean;         // Report unlisted hubs as unexpected too (default: false)
+}
+
+export type ManifestIssueKind = 'missing' | 'unexpected' | 'wrong-port' | 'id-mismatch' | 'missing-channel';
+
+// Short, JSON-safe description of a live device
+export interface ManifestDeviceRef {
+    portChain: string;
+    vid: string;
+    pid: string;
+    serialNumber: string;
+    name: string;
+}
+
+export interface ManifestIssue {
+    kind: ManifestIssueKind;
+    chain: string;                 // Where the problem is (the expected chain, or the unexpected device's chain)
+    message: string;
+    expected?: ManifestDevice;
+    actual?: ManifestDeviceRef;
+}
+
+export interface ManifestReport {
+    manifest: string;              // Manifest name (or "manifest")
+    ok: boolean;
+    checked: number;               // Manifest entries checked
+    issues: ManifestIssue[];
+}
+
+export class ManifestError extends USBTreeError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ManifestError';
+    }
+}
+
+/**
+ * Check a parsed manifest object and return it typed
+ * @throws ManifestError with the offending entry
+ */
+export function parseManifest(data: unknown): TopologyManifest {
+    const manifest = data as TopologyManifest;
+    if (!manifest || typeof manifest !== 'object' || !Array.isArray(manifest.devices)) {
+        throw new ManifestError('Manifest needs a "devices" array');
+    }
+    manifest.devices.forEach((dev, i) => {
+        const where = `devices[${i}]`;
+        if (!dev || typeof dev.chain !== 'string' || !/^\d+(-\d+)*$/.test(dev.chain)) {
+            throw new ManifestError(`${where}: "chain" must be a port chain like "2-3-2"`);
+        }
+        for (const key of ['vid', 'pid', 'serial', 'label'] as const) {
+            if (dev[key] !== undefined && typeof dev[key] !== 'string') {
+                throw new ManifestError(`${where}: "${key}" must be a string`);
+            }
+        }
+        const channels: unknown = dev.channels;
+        if (channels !== undefined && typeof channels !== 'number' && !(Array.isArray(channels) && channels.every(c => typeof c === 'string'))) {
+            throw new ManifestError(`${where}: "channels" must be a number or an array of channel names/roles`);
+        }
+    });
+
+    const chains = manifest.devices.map(d => d.chain);
+    const duplicate = chains.find((chain, i) => chains.indexOf(chain) !== i);
+    if (duplicate) {
+        throw new ManifestError(`Port chain ${duplicate} is listed twice`);
+    }
+    return manifest;
+}
+
+/**
+ * Read and check a manifest JSON file
+ */
+export function loadManifest(filePath: string): TopologyManifest {
+    let data: unknown;
+    try {
+        data = JSON.parse(readFileSync(filePath, 'utf8'));
+    } catch (error) {
+        throw new ManifestError(`Cannot read manifest ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return parseManifest(data);
+}
+
+function ref(dev: USBDevice): ManifestDeviceRef {
+    return { portChain: dev.portChain, vid: dev.vid, pid: dev.pid, serialNumber: dev.serialNumber, name: dev.name };
+}
+
+function describe(expected: ManifestDevice): string {
+    const id = expected.vid ? ` ${expected.vid}:${expected.pid || '*'}` : '';
+    const label = expected.label ? ` "${expected.label}"` : '';
+    return `${label}${id}`.trim() || 'device';
+}
+
+function sameId(dev: USBDevice, expected: ManifestDevice): boolean {
+    if (expected.vid !== undefined && dev.vid.toUpperCase() !== expected.vid.toUpperCase()) return false;
+    if (expected.pid !== undefined && dev.pid.toUpperCase() !== expected.pid.toUpperCase()) return false;
+    if (expected.serial !== undefined && !matchGlob(dev.serialNumber, expected.serial)) return false;
+    return true;
+}
+
+function idMismatch(expected: ManifestDevice, dev: USBDevice): ManifestIssue {
+    return {
+        kind: 'id-mismatch',
+        chain: expected.chain,
+        message: `${expected.chain}: expected ${describe(expected)}${expected.serial ? ` (S/N ${expected.serial})` : ''}, found ${dev.vid}:${dev.pid} ${dev.name}${dev.serialNumber ? ` (S/N ${dev.serialNumber})` : ''}`,
+        expected,
+        actual: ref(dev),
+    };
+}
+
+function missingChannels(dev: USBDevice, expected: ManifestDevice): string[] {
+    const ports = deviceComPorts(dev);
+    if (typeof expected.channels === 'number') {
+        return ports.length < expected.channels ? [`${expected.channels - ports.length} of ${expected.channels} COM port(s)`] : [];
+    }
+    return (expected.channels || []).filter(wanted => !ports.some(c =>
+        (c.role || '').toUpperCase() === wanted.toUpperCase() || (c.channelName || '').toUpperCase() === wanted.toUpperCase()));
+}
+
+/**
+ * Validate a tree against a manifest
+ * A device that matches an entry's VID/PID/serial on another port is reported as wrong-port, not as missing + unexpected;
+ * a different device on the expected port is then reported as id-mismatch
+ */
+export function validateTopology(tree: USBTree, manifest: TopologyManifest): ManifestReport {
+    const physical = [...tree.allDevices.values()].filter(d => d.vid !== 'ROOT' && !isChannelDevice(d));
+    const byChain = new Map(physical.map(d => [d.portChain, d]));
+    const expectedChains = new Set(manifest.devices.map(d => d.chain));
+    const claimed = new Set<USBDevice>();
+    const issues: ManifestIssue[] = [];
+
+    // Exact positions first, so relocated devices can only claim devices no entry expects at their port
+    const unresolved: ManifestDevice[] = [];
+    for (const expected of manifest.devices) {
+        const dev = byChain.get(expected.chain);
+        if (dev && sameId(dev, expected)) {
+            claimed.add(dev);
+            const absent = missingChannels(dev, expected);
+            if (absent.length > 0) {
+                issues.push({
+                    kind: 'missing-channel',
+                    chain: expected.chain,
+                    message: `${describe(expected)} on ${expected.chain} is missing COM channel(s): ${absent.join(', ')}`,
+                    expected,
+                    actual: ref(dev),
+                });
+            }
+        } else {
+            unresolved.push(expected);
+        }
+    }
+
+    for (const expected of unresolved) {
+        const elsewhere = expected.vid || expected.pid || expected.serial
+            ? physical.find(d => !claimed.has(d) && !expectedChains.has(d.portChain) && sameId(d, expected))
+            : undefined;
+        const dev = byChain.get(expected.chain);
+
+        if (elsewhere) {
+            claimed.add(elsewhere);
+            issues.push({
+                kind: 'wrong-port',
+                chain: expected.chain,
+                message: `${describe(expected)} expected on ${expected.chain} but found on ${elsewhere.portChain}`,
+                expected,
+                actual: ref(elsewhere),
+            });
+            // Whatever sits on the expected port instead is not what the manifest wants there either
+            if (dev && !claimed.has(dev)) {
+                claimed.add(dev);
+                issues.push(idMismatch(expected, dev));
+            }
+        } else if (dev) {
+            claimed.add(dev);
+            issues.push(idMismatch(expected, dev));
+        } else if (!expected.optional) {
+            issues.push({
+                kind: 'missing',
+                chain: expected.chain,
+                message: `${describe(expected)} missing on ${expected.chain}`,
+                expected,
+            });
+        }
+    }
+
+    if (!manifest.allowUnexpected) {
+        // Hubs on the way to expected devices are part of the wiring, other hubs only count with includeHubs
+        for (const dev of physical) {
+            if (claimed.has(dev) || expectedChains.has(dev.portChain)) continue;
+            if (dev.isHub && !manifest.includeHubs) continue;
+            if (manifest.scope && !manifest.scope.some(pattern => matchPortChain(dev.portChain, pattern))) continue;
+            issues.push({
+                kind: 'unexpected',
+                chain: dev.portChain,
+                message: `Unexpected ${dev.vid}:${dev.pid} ${dev.name} on ${dev.portChain}`,
+                actual: ref(dev),
+            });
+        }
+    }
+
+    issues.sort((a, b) => comparePortChains(a.chain, b.chain));
+    return { manifest: manifest.name || 'manifest', ok: issues.length === 0, checked: manifest.devices.length, issues };
+}
+
+/**
+ * Human-readable report, one line per issue
+ */
+export function formatManifestReport(report: ManifestReport): string {
+    const lines = [`Topology check "${report.manifest}": ${report.checked} expected device(s), ${report.issues.length} issue(s)`];
+    for (const issue of report.issues) {
+        lines.push(`  [${issue.kind}] ${issue.message}`);
+    }
+    lines.push(report.ok ? 'RESULT: OK' : 'RESULT: FAILED');
+    return lines.join('\n');
+}
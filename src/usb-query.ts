@@ -0,0 +1,349 @@
+/**
+ * USB Device Selectors
+ * Describe devices by rule (VID/PID, wildcard port chains, serial/name globs, COM roles)
+ * instead of hard-coded COM numbers
+ */
+
+import { USBDevice, ComPortInfo, USBTree, DeviceStatus, comparePortChains, compareDriverVersions, deviceComPorts } from './usb-common';
+import { USBTreeError } from './usb-errors';
+
+export interface DeviceSelector {
+    vid?: string;
+    pid?: string;
+    chain?: string;            // Port chain pattern: 2-*-2, 1-1-**, 2-3..4-1, 2-1,3-2
+    serial?: string;           // Glob (* and ?), case-insensitive
+    name?: string;             // Glob (* and ?), case-insensitive
+    com?: string;              // Glob on the COM port name, e.g. COM2*
+    hub?: boolean;             // true = hubs only, false = non-hubs only
+    hasCom?: boolean;          // true = devices with at least one COM port, including ports of their channel children
+    role?: string;             // COM role from the channel profile, e.g. JTAG or Serial
+    channel?: number;          // COM channel (1 = A, 2 = B, ...)
+    status?: DeviceStatus;     // ok, problem or disabled (devices without a status count as ok)
+    service?: string;          // Glob on the driver service, e.g. FTDIBUS or CH341SER*
+    provider?: string;         // Glob on the driver provider, e.g. FTDI
+    driverVersion?: string;    // Exact version or glob (2.12.*), or a comparison: <2.12.36, <=, >, >=
+}
+
+export interface QueryOptions {
+    includeRootHubs?: boolean; // Root hubs are skipped unless requested (like getDeviceTable)
+}
+
+export interface PruneOptions {
+    keepDescendants?: boolean; // Keep the full subtree below each match (default: matches and ancestors only)
+}
+
+export class SelectorError extends USBTreeError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SelectorError';
+    }
+}
+
+const SELECTOR_KEYS = ['vid', 'pid', 'id', 'chain', 'serial', 'name', 'com', 'hub', 'hascom', 'role', 'channel', 'status', 'service', 'provider', 'driverversion'];
+const COMPARISON_OPERATORS = ['<=', '>=', '<', '>'];
+const DEVICE_STATUSES: DeviceStatus[] = ['ok', 'problem', 'disabled'];
+
+// DeviceSelector fields by value type, for checking selector objects from JSON
+const STRING_FIELDS = ['vid', 'pid', 'chain', 'serial', 'name', 'com', 'role', 'service', 'provider', 'driverVersion'];
+const BOOLEAN_FIELDS = ['hub', 'hasCom'];
+
+function checkDriverVersion(version: string): void {
+    const condition = parseVersionCondition(version);
+    if (!condition.version || (condition.operator && !/^\d+(\.\d+)*$/.test(condition.version))) {
+        throw new SelectorError(`Invalid driverVersion "${version}" (expected e.g. 2.12.36, 2.12.*, <2.12.36)`);
+    }
+}
+
+// id=0403:6010 shorthand -> vid and pid
+function parseId(value: string): { vid: string; pid: string } {
+    const [vid, pid] = value.split(':');
+    if (!vid || !pid) throw new SelectorError(`Invalid id "${value}" (expected VID:PID)`);
+    return { vid, pid };
+}
+
+function parseBoolean(key: string, value: string): boolean {
+    const lower = value.toLowerCase();
+    if (['true', 'yes', '1'].includes(lower)) return true;
+    if (['false', 'no', '0'].includes(lower)) return false;
+    throw new SelectorError(`Invalid value for ${key}: "${value}" (expected true or false)`);
+}
+
+/**
+ * Parse the text form of a selector: space-separated key=value terms, values may be quoted
+ * e.g. `vid=0403 pid=6010 chain=2-*-2 role=Serial` or `name="USB Serial*" hasCom=true`
+ * driverVersion also takes a comparison: `driverVersion<2.12.36` (same as `driverVersion=<2.12.36`)
+ */
+export function parseSelector(text: string): DeviceSelector {
+    const selector: DeviceSelector = {};
+    const termPattern = /([A-Za-z]+)(<=|>=|=|<|>)(?:"([^"]*)"|'([^']*)'|(\S+))|(\S+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = termPattern.exec(text)) !== null) {
+        if (match[6] !== undefined) {
+            throw new SelectorError(`Invalid selector term "${match[6]}" (expected key=value)`);
+        }
+
+        const key = match[1].toLowerCase();
+        const operator = match[2];
+        const value = match[3] ?? match[4] ?? match[5];
+        if (!SELECTOR_KEYS.includes(key)) {
+            throw new SelectorError(`Unknown selector key "${match[1]}" (known: ${SELECTOR_KEYS.join(', ')})`);
+        }
+        if (operator !== '=' && key !== 'driverversion') {
+            throw new SelectorError(`Selector key "${match[1]}" only supports = (comparisons: driverVersion)`);
+        }
+
+        switch (key) {
+            case 'vid': selector.vid = value; break;
+            case 'pid': selector.pid = value; break;
+            case 'id': Object.assign(selector, parseId(value)); break;
+            case 'chain': selector.chain = value; break;
+            case 'serial': selector.serial = value; break;
+            case 'name': selector.name = value; break;
+            case 'com': selector.com = value; break;
+            case 'hub': selector.hub = parseBoolean(key, value); break;
+            case 'hascom': selector.hasCom = parseBoolean(key, value); break;
+            case 'role': selector.role = value; break;
+            case 'channel': {
+                // channel=2 or channel=B
+                const channel = /^[A-Za-z]$/.test(value) ? value.toUpperCase().charCodeAt(0) - 64 : parseInt(value);
+                if (isNaN(channel)) throw new SelectorError(`Invalid channel "${value}"`);
+                selector.channel = channel;
+                break;
+            }
+            case 'status': {
+                const status = value.toLowerCase() as DeviceStatus;
+                if (!DEVICE_STATUSES.includes(status)) throw new SelectorError(`Invalid status "${value}" (expected ${DEVICE_STATUSES.join(', ')})`);
+                selector.status = status;
+                break;
+            }
+            case 'service': selector.service = value; break;
+            case 'provider': selector.provider = value; break;
+            case 'driverversion': {
+                const version = operator === '=' ? value : operator + value;
+                checkDriverVersion(version);
+                selector.driverVersion = version;
+                break;
+            }
+        }
+    }
+
+    return selector;
+}
+
+/**
+ * Check a selector object from untrusted input (e.g. a JSON config) the way parseSelector checks text:
+ * unknown keys and values of the wrong type are rejected instead of being ignored
+ */
+export function validateSelector(value: unknown): DeviceSelector {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new SelectorError('Selector must be an object or a selector string');
+    }
+
+    const selector: DeviceSelector = {};
+    for (const [key, field] of Object.entries(value)) {
+        if (key === 'id') {
+            if (typeof field !== 'string') throw new SelectorError(`Invalid value for id: ${JSON.stringify(field)} (expected a string)`);
+            Object.assign(selector, parseId(field));
+            continue;
+        }
+        if (STRING_FIELDS.includes(key)) {
+            if (typeof field !== 'string') throw new SelectorError(`Invalid value for ${key}: ${JSON.stringify(field)} (expected a string)`);
+        } else if (BOOLEAN_FIELDS.includes(key)) {
+            if (typeof field !== 'boolean') throw new SelectorError(`Invalid value for ${key}: ${JSON.stringify(field)} (expected true or false)`);
+        } else if (key === 'channel') {
+            if (!Number.isInteger(field) || field < 1) throw new SelectorError(`Invalid channel ${JSON.stringify(field)} (expected 1, 2, ...)`);
+        } else if (key === 'status') {
+            if (!DEVICE_STATUSES.includes(field)) throw new SelectorError(`Invalid status ${JSON.stringify(field)} (expected ${DEVICE_STATUSES.join(', ')})`);
+        } else {
+            throw new SelectorError(`Unknown selector key "${key}" (known: ${[...STRING_FIELDS, 'id', ...BOOLEAN_FIELDS, 'channel', 'status'].join(', ')})`);
+        }
+        Object.assign(selector, { [key]: field });
+    }
+    if (selector.driverVersion !== undefined) checkDriverVersion(selector.driverVersion);
+    return selector;
+}
+
+/**
+ * Text form of a selector object (the inverse of parseSelector, for messages)
+ */
+export function formatSelector(selector: DeviceSelector): string {
+    return Object.entries(selector).map(([key, value]) => `${key}=${value}`).join(' ');
+}
+
+/**
+ * Case-insensitive glob match (* = any run of characters, ? = one character)
+ */
+export function matchGlob(value: string, pattern: string): boolean {
+    const regex = pattern
+        .split('')
+        .map(ch => ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+        .join('');
+    return new RegExp(`^${regex}$`, 'i').test(value);
+}
+
+// One pattern segment: *, a number, a range a..b, or a comma list of those
+function matchSegment(value: string, pattern: string): boolean {
+    if (pattern === '*') return true;
+    const num = Number(value);
+    return pattern.split(',').some(part => {
+        const range = /^(\d+)\.\.(\d+)$/.exec(part);
+        if (range) {
+            return num >= parseInt(range[1]) && num <= parseInt(range[2]);
+        }
+        return part === value;
+    });
+}
+
+function matchSegments(chain: string[], pattern: string[]): boolean {
+    if (pattern.length === 0) return chain.length === 0;
+    if (pattern[0] === '**') {
+        // ** matches zero or more segments
+        for (let skip = 0; skip <= chain.length; skip++) {
+            if (matchSegments(chain.slice(skip), pattern.slice(1))) return true;
+        }
+        return false;
+    }
+    return chain.length > 0 && matchSegment(chain[0], pattern[0]) && matchSegments(chain.slice(1), pattern.slice(1));
+}
+
+/**
+ * Match a port chain against a pattern (segments: number, *, **, a..b, a,b)
+ */
+export function matchPortChain(portChain: string, pattern: string): boolean {
+    if (!portChain) return false;
+    return matchSegments(portChain.split('-'), pattern.split('-'));
+}
+
+// "<2.12.36" -> operator and version; no operator = exact match or glob
+function parseVersionCondition(condition: string): { operator: string | null; version: string } {
+    const operator = COMPARISON_OPERATORS.find(op => condition.startsWith(op)) ?? null;
+    return { operator, version: operator ? condition.slice(operator.length).trim() : condition.trim() };
+}
+
+/**
+ * Check a driver version against a driverVersion selector value (devices without a known version never match)
+ */
+export function matchDriverVersion(version: string, condition: string): boolean {
+    if (!version) return false;
+    const { operator, version: bound } = parseVersionCondition(condition);
+    const diff = compareDriverVersions(version, bound);
+    switch (operator) {
+        case '<': return diff < 0;
+        case '<=': return diff <= 0;
+        case '>': return diff > 0;
+        case '>=': return diff >= 0;
+        default: return bound.includes('*') || bound.includes('?') ? matchGlob(version, bound) : diff === 0;
+    }
+}
+
+// com/role/channel describe one port, so they match the device holding it (the channel child on multi-port bridges)
+function anyComPort(dev: USBDevice, predicate: (c: ComPortInfo) => boolean): boolean {
+    return dev.comPorts.some(predicate);
+}
+
+/**
+ * Check a single device against a selector (all given fields must match)
+ */
+export function matchesSelector(dev: USBDevice, selector: DeviceSelector): boolean {
+    if (selector.vid !== undefined && dev.vid.toUpperCase() !== selector.vid.toUpperCase()) return false;
+    if (selector.pid !== undefined && dev.pid.toUpperCase() !== selector.pid.toUpperCase()) return false;
+    if (selector.chain !== undefined && !matchPortChain(dev.portChain, selector.chain)) return false;
+    if (selector.serial !== undefined && !matchGlob(dev.serialNumber, selector.serial)) return false;
+    if (selector.name !== undefined && !matchGlob(dev.name, selector.name)) return false;
+    if (selector.hub !== undefined && dev.isHub !== selector.hub) return false;
+    if (selector.hasCom !== undefined && (deviceComPorts(dev).length > 0) !== selector.hasCom) return false;
+    if (selector.com !== undefined && !anyComPort(dev, c => matchGlob(c.port, selector.com!))) return false;
+    if (selector.role !== undefined && !anyComPort(dev, c => (c.role || '').toUpperCase() === selector.role!.toUpperCase())) return false;
+    if (selector.channel !== undefined && !anyComPort(dev, c => c.channel === selector.channel)) return false;
+    if (selector.status !== undefined && (dev.status || 'ok') !== selector.status) return false;
+    if (selector.service !== undefined && !matchGlob(dev.driver?.service ?? '', selector.service)) return false;
+    if (selector.provider !== undefined && !matchGlob(dev.driver?.provider ?? '', selector.provider)) return false;
+    if (selector.driverVersion !== undefined && !matchDriverVersion(dev.driver?.version ?? '', selector.driverVersion)) return false;
+    return true;
+}
+
+function toSelector(selector: string | DeviceSelector): DeviceSelector {
+    return typeof selector === 'string' ? parseSelector(selector) : selector;
+}
+
+/**
+ * Find all devices matching a selector, sorted by port chain
+ *
+ * ```typescript
+ * query(tree, 'vid=0403 pid=6010 chain=2-*-2 role=Serial');
+ * query(tree, { vid: '0403', chain: '2-**', hasCom: true });
+ * ```
+ */
+export function query(tree: USBTree, selector: string | DeviceSelector, options: QueryOptions = {}): USBDevice[] {
+    const sel = toSelector(selector);
+    const results: USBDevice[] = [];
+    for (const dev of tree.allDevices.values()) {
+        if (dev.vid === 'ROOT' && !options.includeRootHubs) continue;
+        if (matchesSelector(dev, sel)) {
+            results.push(dev);
+        }
+    }
+    results.sort((a, b) => comparePortChains(a.portChain, b.portChain));
+    return results;
+}
+
+/**
+ * Copy of the tree reduced to the matching devices and their ancestors (for display)
+ * Devices are shallow copies; COM port info objects are shared with the source tree
+ */
+export function pruneUSBTree(tree: USBTree, selector: string | DeviceSelector, options: PruneOptions = {}): USBTree {
+    const sel = toSelector(selector);
+    const keep = new Set<USBDevice>();
+
+    function markSubtree(dev: USBDevice): void {
+        keep.add(dev);
+        dev.children.forEach(markSubtree);
+    }
+
+    // Depth-first walk with the ancestor path, so matches can mark everything above them
+    function visit(dev: USBDevice, ancestors: USBDevice[]): void {
+        if (dev.vid !== 'ROOT' && matchesSelector(dev, sel)) {
+            ancestors.forEach(a => keep.add(a));
+            if (options.keepDescendants) {
+                markSubtree(dev);
+            } else {
+                keep.add(dev);
+            }
+        }
+        for (const child of dev.children) {
+            visit(child, [...ancestors, dev]);
+        }
+    }
+
+    for (const root of tree.rootHubs) {
+        visit(root, []);
+    }
+
+    const copies = new Map<USBDevice, USBDevice>();
+    function copy(dev: USBDevice): USBDevice {
+        let clone = copies.get(dev);
+        if (!clone) {
+            clone = { ...dev, children: [] };
+            copies.set(dev, clone);
+            clone.children = dev.children.filter(c => keep.has(c)).map(copy);
+        }
+        return clone;
+    }
+
+    const rootHubs = tree.rootHubs.filter(r => keep.has(r)).map(copy);
+
+    const allDevices = new Map<string, USBDevice>();
+    for (const [key, dev] of tree.allDevices) {
+        const clone = copies.get(dev);
+        if (clone) allDevices.set(key, clone);
+    }
+
+    const comPortMap = new Map<string, { device: USBDevice; comInfo: ComPortInfo }>();
+    for (const [port, { device, comInfo }] of tree.comPortMap) {
+        const clone = copies.get(device);
+        if (clone) comPortMap.set(port, { device: clone, comInfo });
+    }
+
+    return { rootHubs, allDevices, comPortMap, backend: tree.backend };
+}
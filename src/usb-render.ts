@@ -0,0 +1,251 @@
+/**
+ * Text Renderers
+ * Render a USBTree or a device list to a string - ASCII/Unicode tree, fixed-width table,
+ * Markdown, CSV and a self-contained HTML report - for test-run attachments and wiki pages
+ */
+
+import { USBDevice, USBTree, ComPortInfo, getComPortList, getDeviceTable, hasProblem } from './usb-common';
+import { AliasRegistry } from './usb-aliases';
+
+export type TreeStyle = 'ascii' | 'unicode';
+
+export type RenderColumn = 'vidPid' | 'vid' | 'pid' | 'name' | 'serial' | 'com' | 'kernelName' | 'chain' | 'hub' | 'status' | 'driver';
+
+export interface RenderTreeOptions {
+    style?: TreeStyle;         // 'ascii' (default, USBTreeView look) or 'unicode' box drawing
+    aliases?: AliasRegistry;   // Show alias names after the matching devices
+}
+
+export interface RenderTableOptions {
+    columns?: RenderColumn[];
+}
+
+export interface RenderHtmlOptions extends RenderTableOptions {
+    title?: string;
+    aliases?: AliasRegistry;
+}
+
+// Default column sets - match the console table and the CLI's CSV output
+export const TABLE_COLUMNS: RenderColumn[] = ['vidPid', 'name', 'serial', 'com', 'chain'];
+export const CSV_COLUMNS: RenderColumn[] = ['vid', 'pid', 'name', 'serial', 'com', 'kernelName', 'chain', 'hub'];
+
+function comLabel(c: ComPortInfo): string | undefined {
+    return c.role || c.channelName;
+}
+
+// "FTDIBUS 2.12.36.4" - service and version of the installed driver
+function driverText(dev: USBDevice): string {
+    return dev.driver ? [dev.driver.service, dev.driver.version].filter(Boolean).join(' ') : '';
+}
+
+// "Code 43: Windows has stopped this device ..." for problem devices, the plain status otherwise
+function statusText(dev: USBDevice): string {
+    return hasProblem(dev) ? `Code ${dev.problemCode}: ${dev.problemDescription}` : dev.status || '';
+}
+
+interface ColumnDef {
+    header: string;            // Markdown/HTML/text header
+    csvHeader: string;
+    width: number;             // Fixed-width text table
+    value(dev: USBDevice): string;
+    short?(dev: USBDevice): string;   // Compact form for the fixed-width table
+    csv?(dev: USBDevice): string;     // Machine-friendly form for CSV
+}
+
+const COLUMNS: Record<RenderColumn, ColumnDef> = {
+    vidPid: { header: 'VID:PID', csvHeader: 'VID:PID', width: 10, value: dev => `${dev.vid}:${dev.pid}` },
+    vid: { header: 'VID', csvHeader: 'VID', width: 4, value: dev => dev.vid },
+    pid: { header: 'PID', csvHeader: 'PID', width: 5, value: dev => dev.pid },
+    name: { header: 'Name', csvHeader: 'Name', width: 40, value: dev => dev.name, short: dev => dev.name.substring(0, 40) },
+    serial: { header: 'Serial', csvHeader: 'Serial', width: 16, value: dev => dev.serialNumber, short: dev => dev.serialNumber || '-' },
+    com: {
+        header: 'COM Ports',
+        csvHeader: 'COM Ports',
+        width: 16,
+        value: dev => dev.comPorts.map(c => `${c.port}${comLabel(c) ? ` (${comLabel(c)})` : ''}`).join(', '),
+        short: dev => dev.comPorts.map(c => `${c.port}${comLabel(c) ? `(${comLabel(c)![0]})` : ''}`).join(', ') || '-',
+        csv: dev => dev.comPorts.map(c => c.port).join(' '),
+    },
+    kernelName: { header: 'Kernel Name', csvHeader: 'Kernel Name', width: 24, value: dev => dev.kernelName, short: dev => dev.kernelName || '-' },
+    chain: { header: 'Port Chain', csvHeader: 'Port Chain', width: 11, value: dev => dev.portChain, short: dev => `${dev.portChain}${dev.isHub ? ' [HUB]' : ''}` },
+    hub: { header: 'Hub', csvHeader: 'Hub', width: 3, value: dev => dev.isHub ? 'yes' : 'no' },
+    status: {
+        header: 'Status',
+        csvHeader: 'Status',
+        width: 10,
+        value: statusText,
+        short: dev => hasProblem(dev) ? `Code ${dev.problemCode}` : dev.status || '-',
+    },
+    driver: { header: 'Driver', csvHeader: 'Driver', width: 24, value: driverText, short: dev => driverText(dev) || '-' },
+};
+
+const TREE_GLYPHS: Record<TreeStyle, { branch: string; last: string; pipe: string; root: string }> = {
+    ascii: { branch: '|--', last: '\\--', pipe: '|   ', root: '\\---' },
+    unicode: { branch: '├──', last: '└──', pipe: '│   ', root: '└───' },
+};
+
+/**
+ * Render the tree in the USBTreeView-like layout printUSBTree prints
+ */
+export function renderTree(tree: USBTree, options: RenderTreeOptions = {}): string {
+    const glyphs = TREE_GLYPHS[options.style || 'ascii'];
+    const aliasLabels = options.aliases ? options.aliases.labels(tree) : new Map<USBDevice, string[]>();
+    const problems = [...tree.allDevices.values()].filter(hasProblem).length;
+    const lines = ['USB Device Tree', `Connected Devices: ${tree.allDevices.size}`, ...(problems > 0 ? [`Devices with problems: ${problems}`] : []), ''];
+
+    function renderDevice(dev: USBDevice, prefix: string, isLast: boolean): void {
+        const connector = isLast ? glyphs.last : glyphs.branch;
+        const vidPid = dev.vid === 'ROOT' ? '' : ` (${dev.vid.toLowerCase()}:${dev.pid.toLowerCase()})`;
+
+        // COM port string for single-port devices (multi-port devices have channel children)
+        let comStr = '';
+        if (dev.comPorts.length === 1) {
+            const c = dev.comPorts[0];
+            comStr = ` - ${c.port}${comLabel(c) ? ` (${comLabel(c)})` : ''}`;
+        }
+
+        const serialStr = dev.serialNumber ? ` [S/N: ${dev.serialNumber}]` : '';
+        const aliases = aliasLabels.get(dev);
+        const aliasStr = aliases ? ` <${aliases.join(', ')}>` : '';
+
+        const problemStr = hasProblem(dev) ? ` !! ${dev.status === 'disabled' ? 'DISABLED' : 'PROBLEM'} ${statusText(dev)}` : '';
+
+        lines.push(`${prefix}${connector}[${dev.portChain}]: ${dev.name}${vidPid}${serialStr}${comStr}${aliasStr}${problemStr}`);
+
+        const childPrefix = prefix + (isLast ? '    ' : glyphs.pipe);
+        dev.children.forEach((child, i) => renderDevice(child, childPrefix, i === dev.children.length - 1));
+    }
+
+    for (const root of tree.rootHubs) {
+        lines.push(`${glyphs.root}USB Root Hub (${root.portChain})`);
+        root.children.forEach((child, i) => renderDevice(child, '    ', i === root.children.length - 1));
+        lines.push('');
+    }
+
+    // Previously seen devices (includeDisconnected) - no port chain, they are not part of the topology
+    if (tree.disconnected && tree.disconnected.length > 0) {
+        lines.push(`Disconnected Devices: ${tree.disconnected.length}`);
+        for (const dev of tree.disconnected) {
+            const serialStr = dev.serialNumber ? ` [S/N: ${dev.serialNumber}]` : '';
+            const comStr = dev.comPorts.length > 0 ? ` - last ${dev.comPorts.map(c => c.port).join(', ')}` : '';
+            const removedStr = dev.lastRemoval ? ` (removed ${dev.lastRemoval})` : '';
+            lines.push(`    ${dev.name} (${dev.vid.toLowerCase()}:${dev.pid.toLowerCase()})${serialStr}${comStr}${removedStr}`);
+        }
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Fixed-width text table (the console "Device Table" layout)
+ */
+export function renderTable(devices: USBDevice[], options: RenderTableOptions = {}): string {
+    const columns = (options.columns || TABLE_COLUMNS).map(c => COLUMNS[c]);
+    const row = (cells: string[]) => cells
+        .map((cell, i) => i === cells.length - 1 ? cell : cell.padEnd(columns[i].width))
+        .join(' | ');
+    const totalWidth = columns.reduce((sum, c) => sum + c.width, 0) + 3 * (columns.length - 1);
+
+    const lines = [row(columns.map(c => c.header)), '-'.repeat(totalWidth)];
+    for (const dev of devices) {
+        lines.push(row(columns.map(c => (c.short || c.value)(dev))));
+    }
+    return lines.join('\n');
+}
+
+function markdownCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ') || '-';
+}
+
+/**
+ * GitHub-flavoured Markdown table
+ */
+export function renderMarkdownTable(devices: USBDevice[], options: RenderTableOptions = {}): string {
+    const columns = (options.columns || TABLE_COLUMNS).map(c => COLUMNS[c]);
+    const lines = [
+        `| ${columns.map(c => c.header).join(' | ')} |`,
+        `| ${columns.map(() => '---').join(' | ')} |`,
+    ];
+    for (const dev of devices) {
+        lines.push(`| ${columns.map(c => markdownCell(c.value(dev))).join(' | ')} |`);
+    }
+    return lines.join('\n');
+}
+
+function csvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * CSV with a header line (COM ports are space-separated port names)
+ */
+export function renderCsv(devices: USBDevice[], options: RenderTableOptions = {}): string {
+    const columns = (options.columns || CSV_COLUMNS).map(c => COLUMNS[c]);
+    const lines = [columns.map(c => csvField(c.csvHeader)).join(',')];
+    for (const dev of devices) {
+        lines.push(columns.map(c => csvField((c.csv || c.value)(dev))).join(','));
+    }
+    return lines.join('\n');
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * HTML <table> fragment
+ */
+export function renderHtmlTable(devices: USBDevice[], options: RenderTableOptions = {}): string {
+    const columns = (options.columns || TABLE_COLUMNS).map(c => COLUMNS[c]);
+    const lines = ['<table>', `<thead><tr>${columns.map(c => `<th>${escapeHtml(c.header)}</th>`).join('')}</tr></thead>`, '<tbody>'];
+    for (const dev of devices) {
+        const rowClass = hasProblem(dev) ? ' class="problem"' : dev.isHub ? ' class="hub"' : '';
+        lines.push(`<tr${rowClass}>${columns.map(c => `<td>${escapeHtml(c.value(dev))}</td>`).join('')}</tr>`);
+    }
+    lines.push('</tbody>', '</table>');
+    return lines.join('\n');
+}
+
+const HTML_STYLE = `body { font-family: Segoe UI, Helvetica, Arial, sans-serif; margin: 2em; color: #222; }
+pre { background: #f6f8fa; padding: 1em; overflow-x: auto; }
+table { border-collapse: collapse; margin-bottom: 2em; }
+th, td { border: 1px solid #d0d7de; padding: 4px 8px; text-align: left; font-size: 14px; }
+th { background: #f6f8fa; }
+tr.hub td { color: #666; }
+tr.problem td { color: #b00020; }
+.meta { color: #666; font-size: 13px; }`;
+
+/**
+ * Self-contained HTML report: Unicode tree, COM port list and device table (no external assets)
+ */
+export function renderHtmlReport(tree: USBTree, options: RenderHtmlOptions = {}): string {
+    const title = options.title || 'USB Device Tree';
+    const comColumns: RenderColumn[] = ['com', 'name', 'serial', 'kernelName', 'chain'];
+    const backend = tree.backend ? `, backend: ${tree.backend}` : '';
+
+    return [
+        '<!DOCTYPE html>',
+        '<html>',
+        '<head>',
+        '<meta charset="utf-8">',
+        `<title>${escapeHtml(title)}</title>`,
+        `<style>\n${HTML_STYLE}\n</style>`,
+        '</head>',
+        '<body>',
+        `<h1>${escapeHtml(title)}</h1>`,
+        `<p class="meta">Generated ${escapeHtml(new Date().toISOString())}${escapeHtml(backend)}</p>`,
+        '<h2>Tree</h2>',
+        `<pre>${escapeHtml(renderTree(tree, { style: 'unicode', aliases: options.aliases }))}</pre>`,
+        '<h2>COM Ports</h2>',
+        renderHtmlTable(getComPortList(tree), { columns: comColumns }),
+        '<h2>Devices</h2>',
+        renderHtmlTable(getDeviceTable(tree), { columns: options.columns }),
+        '</body>',
+        '</html>',
+    ].join('\n');
+}
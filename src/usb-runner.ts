@@ -0,0 +1,146 @@
+/**
+ * Command Runner - the only place the enumeration layer touches child processes
+ * Backends receive a CommandRunner so they can be driven by recorded output off Windows
+ */
+
+import { execFile, execFileSync } from 'child_process';
+import { writeFileSync, unlinkSync, promises as fsp } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { USBTreeError, PowerShellNotFoundError, EnumerationTimeoutError, BackendFailedError, processErrorDetails } from './usb-errors';
+
+export interface CommandRunner {
+    /** Run a PowerShell script and return its standard output */
+    runPowerShell(script: string): string;
+    /** Run a program directly (no shell, no PowerShell) and return its standard output */
+    run?(command: string, args: string[]): string;
+}
+
+export interface RunOptions {
+    signal?: AbortSignal;      // Kills the child process when aborted
+    timeout?: number;          // Milliseconds before the child process is killed
+}
+
+export interface AsyncCommandRunner {
+    /** Run a PowerShell script without blocking the event loop */
+    runPowerShellAsync(script: string, options?: RunOptions): Promise<string>;
+    /** Run a program directly without blocking the event loop */
+    runAsync?(command: string, args: string[], options?: RunOptions): Promise<string>;
+}
+
+/**
+ * Create the error used when an enumeration is cancelled through an AbortSignal
+ */
+export function createAbortError(): Error {
+    const error = new Error('USB tree enumeration was aborted');
+    error.name = 'AbortError';
+    return error;
+}
+
+const MAX_BUFFER = 64 * 1024 * 1024;
+
+// Output of a process that exited with an error - pnputil reports "no devices" through its exit code
+function stdoutOf(error: unknown): string {
+    const stdout = processErrorDetails(error).stdout;
+    return stdout ? stdout.toString() : '';
+}
+
+function stderrOf(error: unknown): string {
+    const stderr = processErrorDetails(error).stderr;
+    return stderr ? stderr.toString() : '';
+}
+
+/**
+ * Typed error for a failed child process: not installed, timed out, or non-zero exit (with its stderr)
+ */
+function commandError(command: string, label: string, error: unknown, stderr: string, timeout?: number): USBTreeError {
+    const details = processErrorDetails(error);
+    if (details.code === 'ENOENT') {
+        return command === 'powershell'
+            ? new PowerShellNotFoundError('powershell.exe was not found on the PATH', { cause: error })
+            : new BackendFailedError(`${label} was not found on the PATH`, null, '', { cause: error });
+    }
+    if (timeout && (details.killed || details.code === 'ETIMEDOUT')) {
+        return new EnumerationTimeoutError(`${label} did not finish within ${timeout} ms`, timeout, { cause: error });
+    }
+    const exitCode = typeof details.status === 'number' ? details.status : typeof details.code === 'number' ? details.code : null;
+    const firstLine = stderr.trim().split(/\r?\n/)[0];
+    const reason = exitCode !== null ? `exited with code ${exitCode}` : `was terminated${details.signal ? ` by ${details.signal}` : ''}`;
+    return new BackendFailedError(`${label} ${reason}${firstLine ? `: ${firstLine}` : ''}`, exitCode, stderr, { cause: error });
+}
+
+// keepOutputOnError: resolve with stdout when the process fails after printing something (see stdoutOf)
+function execFileAsync(command: string, args: string[], label: string, options: RunOptions, keepOutputOnError: boolean): Promise<string> {
+    const { signal, timeout } = options;
+    if (signal?.aborted) {
+        return Promise.reject(createAbortError());
+    }
+
+    return new Promise<string>((resolve, reject) => {
+        execFile(
+            command,
+            args,
+            { encoding: 'utf8', maxBuffer: MAX_BUFFER, windowsHide: true, signal, timeout },
+            (error, stdout, stderr) => {
+                if (!error) {
+                    resolve(stdout);
+                } else if (signal?.aborted) {
+                    reject(createAbortError());
+                } else if (keepOutputOnError && stdout && !(timeout && error.killed)) {
+                    resolve(stdout);
+                } else {
+                    reject(commandError(command, label, error, stderr, timeout));
+                }
+            }
+        );
+    });
+}
+
+/**
+ * Default runner: writes scripts to a temp file and executes them with powershell.exe,
+ * other programs (pnputil) are executed directly
+ */
+export const defaultCommandRunner: CommandRunner & AsyncCommandRunner = {
+    runPowerShell(script: string): string {
+        const tmpFile = join(tmpdir(), `usb-tree-${Date.now()}.ps1`);
+        writeFileSync(tmpFile, script);
+
+        try {
+            return execFileSync('powershell', ['-ExecutionPolicy', 'Bypass', '-File', tmpFile], { encoding: 'utf8', maxBuffer: MAX_BUFFER, windowsHide: true, stdio: ['ignore', 'pipe', 'pipe'] });
+        } catch (error) {
+            throw commandError('powershell', 'PowerShell', error, stderrOf(error));
+        } finally {
+            try { unlinkSync(tmpFile); } catch { }
+        }
+    },
+
+    run(command: string, args: string[]): string {
+        try {
+            return execFileSync(command, args, { encoding: 'utf8', maxBuffer: MAX_BUFFER, windowsHide: true, stdio: ['ignore', 'pipe', 'pipe'] });
+        } catch (error) {
+            const stdout = stdoutOf(error);
+            if (stdout) return stdout;
+            throw commandError(command, command, error, stderrOf(error));
+        }
+    },
+
+    async runPowerShellAsync(script: string, options: RunOptions = {}): Promise<string> {
+        if (options.signal?.aborted) {
+            throw createAbortError();
+        }
+
+        // Random suffix: several async enumerations may be in flight at once
+        const tmpFile = join(tmpdir(), `usb-tree-${Date.now()}-${Math.random().toString(36).slice(2)}.ps1`);
+        await fsp.writeFile(tmpFile, script);
+
+        try {
+            return await execFileAsync('powershell', ['-ExecutionPolicy', 'Bypass', '-File', tmpFile], 'PowerShell', options, false);
+        } finally {
+            await fsp.unlink(tmpFile).catch(() => { });
+        }
+    },
+
+    runAsync(command: string, args: string[], options: RunOptions = {}): Promise<string> {
+        return execFileAsync(command, args, command, options, true);
+    },
+};
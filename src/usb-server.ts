@@ -0,0 +1,209 @@
+/**
+ * HTTP Service
+ * Serves the cached tree as JSON (REST) and attach/detach events as Server-Sent Events,
+ * for test-station tools that are not written in Node (Python, LabVIEW, ...)
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { USBDevice, USBTree } from './usb-common';
+import { getComPortList, getDeviceTable, getDeviceByPortChain } from './usb-tree';
+import { USBTreeWatcher, USBTreeWatcherOptions } from './usb-tree-watcher';
+import { serializeUSBTree, toDeviceRecord } from './usb-tree-snapshot';
+import { query, SelectorError } from './usb-query';
+
+export interface USBTreeServerOptions {
+    host?: string;             // Bind address (default 127.0.0.1 - only reachable from this machine)
+    port?: number;             // Default 8765, 0 = any free port
+    refreshInterval?: number;  // Re-enumerate every N ms; requests are answered from the cached tree (default 2000)
+    heartbeat?: number;        // SSE keep-alive comment interval in ms (default 15000)
+    watcher?: Omit<USBTreeWatcherOptions, 'interval'>;
+}
+
+const STREAMED_EVENTS = ['attached', 'detached', 'comPortAdded', 'comPortRemoved', 'kernelNameChanged'] as const;
+
+class HttpError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+    res.end(JSON.stringify(body, null, 2));
+}
+
+// Query string to selector text: ?selector=vid=0403+role=Serial, or one parameter per key (?vid=0403&chain=2-*-2)
+function selectorFromQuery(params: URLSearchParams): string {
+    const terms: string[] = [];
+    for (const [key, value] of params) {
+        terms.push(key === 'selector' ? value : `${key}="${value.replace(/"/g, '')}"`);
+    }
+    if (terms.length === 0) {
+        throw new HttpError(400, 'query needs a selector, e.g. /query?vid=0403&role=Serial');
+    }
+    return terms.join(' ');
+}
+
+/**
+ * Local REST + SSE service backed by a USBTreeWatcher
+ *
+ * GET /tree                  Full snapshot (see serializeUSBTree)
+ * GET /devices               All devices (flat records, like `usb-tree-win table --json`)
+ * GET /devices/:portChain    One device
+ * GET /com                   Devices holding COM ports
+ * GET /com/:port             Device behind a COM port
+ * GET /query?...             Devices matching a selector
+ * GET /events                Server-Sent Events: attached, detached, comPortAdded, comPortRemoved, kernelNameChanged
+ * GET /health                Cache age, backend and the last enumeration error
+ */
+export class USBTreeServer {
+    private readonly options: USBTreeServerOptions;
+    private readonly watcher: USBTreeWatcher;
+    private readonly server: Server;
+    private readonly streams = new Set<ServerResponse>();
+    private heartbeatTimer: NodeJS.Timeout | null = null;
+    private updatedAt: string | null = null;
+    private lastError: string | null = null;
+
+    constructor(options: USBTreeServerOptions = {}) {
+        this.options = options;
+        this.watcher = new USBTreeWatcher({ ...options.watcher, interval: options.refreshInterval ?? 2000 });
+        this.server = createServer((req, res) => this.handle(req, res));
+
+        this.watcher.on('refresh', () => {
+            this.updatedAt = new Date().toISOString();
+            this.lastError = null;
+        });
+        this.watcher.on('error', error => {
+            this.lastError = error.message;
+        });
+        for (const name of STREAMED_EVENTS) {
+            this.watcher.on(name, (event: { device: USBDevice }) => {
+                this.broadcast(name, { ...event, device: toDeviceRecord(event.device) });
+            });
+        }
+    }
+
+    /** Cached tree (null until the first enumeration finished) */
+    get tree(): USBTree | null {
+        return this.watcher.tree;
+    }
+
+    /** Base URL once listening, e.g. http://127.0.0.1:8765 */
+    get url(): string | null {
+        const address = this.server.address() as AddressInfo | null;
+        return address ? `http://${address.family === 'IPv6' ? `[${address.address}]` : address.address}:${address.port}` : null;
+    }
+
+    /**
+     * Take the first snapshot, then listen; rejects if enumeration or binding fails
+     */
+    async start(): Promise<string> {
+        await new Promise<void>((resolve, reject) => {
+            const onRefresh = () => {
+                this.watcher.off('error', onError);
+                resolve();
+            };
+            const onError = (error: Error) => {
+                this.watcher.off('refresh', onRefresh);
+                this.watcher.stop();
+                reject(error);
+            };
+            this.watcher.once('refresh', onRefresh);
+            this.watcher.once('error', onError);
+            this.watcher.start();
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            this.server.once('error', error => {
+                this.watcher.stop();
+                reject(error);
+            });
+            this.server.listen(this.options.port ?? 8765, this.options.host ?? '127.0.0.1', () => resolve());
+        });
+
+        this.heartbeatTimer = setInterval(() => {
+            for (const res of this.streams) res.write(': keep-alive\n\n');
+        }, this.options.heartbeat ?? 15000);
+        return this.url!;
+    }
+
+    /**
+     * Stop polling, end open event streams and close the listener
+     */
+    stop(): Promise<void> {
+        this.watcher.stop();
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+        for (const res of this.streams) res.end();
+        this.streams.clear();
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+
+    private broadcast(event: string, data: unknown): void {
+        const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+        for (const res of this.streams) res.write(message);
+    }
+
+    private handle(req: IncomingMessage, res: ServerResponse): void {
+        try {
+            if (req.method !== 'GET') {
+                throw new HttpError(405, `${req.method} not allowed`);
+            }
+            const url = new URL(req.url || '/', 'http://localhost');
+            const [resource, param, extra] = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+            const tree = this.watcher.tree;
+
+            if (resource === 'events' && !param) {
+                res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-store', 'Connection': 'keep-alive' });
+                res.write(': connected\n\n');
+                this.streams.add(res);
+                req.on('close', () => this.streams.delete(res));
+                return;
+            }
+            if (resource === 'health' && !param) {
+                sendJson(res, 200, { ok: tree !== null && this.lastError === null, backend: tree?.backend ?? null, updatedAt: this.updatedAt, error: this.lastError });
+                return;
+            }
+            if (!tree) {
+                throw new HttpError(503, 'No USB tree yet');
+            }
+            if (extra !== undefined) {
+                throw new HttpError(404, `Not found: ${url.pathname}`);
+            }
+
+            switch (resource) {
+                case 'tree':
+                    if (!param) return sendJson(res, 200, serializeUSBTree(tree));
+                    break;
+                case 'devices': {
+                    if (!param) return sendJson(res, 200, getDeviceTable(tree).map(toDeviceRecord));
+                    const dev = getDeviceByPortChain(tree, param);
+                    if (!dev) throw new HttpError(404, `No device on port chain ${param}`);
+                    return sendJson(res, 200, toDeviceRecord(dev));
+                }
+                case 'com': {
+                    if (!param) return sendJson(res, 200, getComPortList(tree).map(toDeviceRecord));
+                    const entry = tree.comPortMap.get(param) ?? tree.comPortMap.get(param.toUpperCase());
+                    if (!entry) throw new HttpError(404, `No device for ${param}`);
+                    return sendJson(res, 200, toDeviceRecord(entry.device));
+                }
+                case 'query':
+                    if (!param) return sendJson(res, 200, query(tree, selectorFromQuery(url.searchParams)).map(toDeviceRecord));
+                    break;
+            }
+            throw new HttpError(404, `Not found: ${url.pathname}`);
+        } catch (error) {
+            if (error instanceof HttpError) {
+                sendJson(res, error.status, { error: error.message });
+            } else if (error instanceof SelectorError) {
+                sendJson(res, 400, { error: error.message });
+            } else {
+                sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+    }
+}
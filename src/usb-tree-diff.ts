@@ -0,0 +1,178 @@
+/**
+ * USB Tree Diff
+ * Structured comparison of two USBTree snapshots
+ */
+
+import { USBDevice, USBTree, ComPortInfo, DriverInfo } from './usb-common';
+
+export type DiffField =
+    | 'instancePath'
+    | 'vid'
+    | 'pid'
+    | 'serialNumber'
+    | 'name'
+    | 'parentPath'
+    | 'portNumber'
+    | 'portChain'
+    | 'isHub'
+    | 'kernelName'
+    | 'comPorts'
+    | 'children'
+    | 'problemCode'
+    | 'driver';
+
+export type DeviceMatch = 'instancePath' | 'portChain';
+
+export interface FieldChange {
+    field: DiffField;
+    before: unknown;
+    after: unknown;
+}
+
+export interface DeviceChange {
+    before: USBDevice;
+    after: USBDevice;
+    matchedBy: DeviceMatch;    // portChain = same physical port, different instance (e.g. VID/PID or serial changed)
+    changes: FieldChange[];
+}
+
+export interface USBTreeDiff {
+    added: USBDevice[];
+    removed: USBDevice[];
+    changed: DeviceChange[];
+    identical: boolean;
+}
+
+export interface DiffOptions {
+    fields?: DiffField[];      // Fields to compare (default: all)
+    ignore?: DiffField[];      // Fields to skip, e.g. ['name'] when comparing backends
+    matchBy?: DeviceMatch[];   // Matching passes, in order (default: instancePath, then portChain)
+}
+
+const ALL_FIELDS: DiffField[] = [
+    'instancePath', 'vid', 'pid', 'serialNumber', 'name', 'parentPath',
+    'portNumber', 'portChain', 'isHub', 'kernelName', 'comPorts', 'children', 'problemCode', 'driver',
+];
+
+// Comparable representation of a field (children as instance paths, COM ports without object identity)
+function fieldValue(dev: USBDevice, field: DiffField): unknown {
+    switch (field) {
+        case 'comPorts':
+            return dev.comPorts.map((c: ComPortInfo) => ({ port: c.port, kernelName: c.kernelName, channel: c.channel, role: c.role }));
+        case 'children':
+            return dev.children.map(c => c.instancePath);
+        case 'parentPath':
+            return dev.parentPath || null;
+        case 'driver':
+            return dev.driver ?? null;
+        default:
+            return dev[field];
+    }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    if (typeof a === 'string' && typeof b === 'string') {
+        return a.toUpperCase() === b.toUpperCase();
+    }
+    // Children lists: instance paths are case-insensitive too (pnputil keeps their case, CIM upper-cases them)
+    if (Array.isArray(a) && Array.isArray(b) && [...a, ...b].every(v => typeof v === 'string')) {
+        return a.length === b.length && a.every((v, i) => sameValue(v, b[i]));
+    }
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function compareDevices(before: USBDevice, after: USBDevice, fields: DiffField[]): FieldChange[] {
+    const changes: FieldChange[] = [];
+    for (const field of fields) {
+        const a = fieldValue(before, field);
+        const b = fieldValue(after, field);
+        if (!sameValue(a, b)) {
+            changes.push({ field, before: a, after: b });
+        }
+    }
+    return changes;
+}
+
+function keyOf(dev: USBDevice, match: DeviceMatch): string {
+    return match === 'instancePath' ? dev.instancePath.toUpperCase() : dev.portChain;
+}
+
+/**
+ * Compare two snapshots
+ * Devices are matched by instance path first, then leftovers by port chain, so a device that
+ * re-enumerates with a new VID/PID or serial on the same port shows up as one change
+ */
+export function diffUSBTrees(before: USBTree, after: USBTree, options: DiffOptions = {}): USBTreeDiff {
+    const ignore = new Set(options.ignore || []);
+    const fields = (options.fields || ALL_FIELDS).filter(f => !ignore.has(f));
+    const matchBy = options.matchBy || ['instancePath', 'portChain'];
+
+    const remainingBefore = new Set(before.allDevices.values());
+    const remainingAfter = new Set(after.allDevices.values());
+    const changed: DeviceChange[] = [];
+
+    for (const match of matchBy) {
+        const afterByKey = new Map<string, USBDevice>();
+        for (const dev of remainingAfter) {
+            const key = keyOf(dev, match);
+            // Devices outside the topology have no port chain - nothing to match on
+            if (key && !afterByKey.has(key)) afterByKey.set(key, dev);
+        }
+
+        for (const dev of [...remainingBefore]) {
+            const key = keyOf(dev, match);
+            const other = key ? afterByKey.get(key) : undefined;
+            if (!other || !remainingAfter.has(other)) continue;
+
+            remainingBefore.delete(dev);
+            remainingAfter.delete(other);
+            const changes = compareDevices(dev, other, fields);
+            if (changes.length > 0) {
+                changed.push({ before: dev, after: other, matchedBy: match, changes });
+            }
+        }
+    }
+
+    const added = [...remainingAfter];
+    const removed = [...remainingBefore];
+    return { added, removed, changed, identical: added.length === 0 && removed.length === 0 && changed.length === 0 };
+}
+
+function formatValue(field: DiffField, value: unknown): string {
+    if (field === 'comPorts') {
+        const ports = value as { port: string; kernelName: string }[];
+        return ports.length ? ports.map(c => c.kernelName ? `${c.port} (${c.kernelName})` : c.port).join(', ') : '-';
+    }
+    if (field === 'driver' && value) {
+        const driver = value as DriverInfo;
+        return [driver.service, driver.version, driver.inf].filter(Boolean).join(' ') || '-';
+    }
+    if (Array.isArray(value)) {
+        return value.length ? value.join(', ') : '-';
+    }
+    return value === null || value === undefined || value === '' ? '-' : String(value);
+}
+
+function describe(dev: USBDevice): string {
+    return `[${dev.portChain || '?'}] ${dev.name} (${dev.vid}:${dev.pid})`;
+}
+
+/**
+ * Human-readable report lines (+ added, - removed, ~ changed)
+ */
+export function formatUSBTreeDiff(diff: USBTreeDiff): string[] {
+    const lines: string[] = [];
+    for (const dev of diff.added) {
+        lines.push(`+ ${describe(dev)} ${dev.instancePath}`);
+    }
+    for (const dev of diff.removed) {
+        lines.push(`- ${describe(dev)} ${dev.instancePath}`);
+    }
+    for (const change of diff.changed) {
+        const details = change.changes
+            .map(c => `${c.field}: ${formatValue(c.field, c.before)} -> ${formatValue(c.field, c.after)}`)
+            .join('; ');
+        lines.push(`~ ${describe(change.after)} ${details}`);
+    }
+    return lines;
+}
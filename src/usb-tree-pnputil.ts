@@ -1,18 +1,122 @@
-import { execSync } from 'child_process';
-import { writeFileSync, unlinkSync } from 'fs';
-import { tmpdir } from 'os';
-import { join } from 'path';
-import { USBDevice, getDeviceName } from './usb-common';
+import { USBTreeData, USBTreeBackend, EnumerationOptions, parseTreeDataOutput } from './usb-common';
+import { CommandRunner, AsyncCommandRunner, RunOptions, defaultCommandRunner } from './usb-runner';
+import { PnputilDevice, parsePnputilOutputWithDiagnostics, pnputilDevicesToTreeData, pnputilPhantomsToTreeData } from './pnputil-parser';
+import { ParseError, USBTreeLogger, consoleLogger } from './usb-errors';
+
+// USB (hubs, standard devices), USBDevice (WinUSB devices), Ports (COM ports)
+const PNPUTIL_CLASSES = ['USB', 'USBDevice', 'Ports'];
+
+/**
+ * pnputil arguments for one bulk class dump - relations give the parent, properties the port/service/PDO name
+ */
+export function pnputilArgs(className: string): string[] {
+    return ['/enum-devices', '/connected', '/class', className, '/relations', '/properties'];
+}
+
+/**
+ * pnputil arguments for the devices with a Device Manager problem (any class - devices without a driver have none)
+ */
+export function pnputilProblemArgs(): string[] {
+    return ['/enum-devices', '/connected', '/problem', '/relations', '/properties'];
+}
+
+/**
+ * pnputil arguments for one class of devices Windows remembers but that are not connected
+ */
+export function pnputilDisconnectedArgs(className: string): string[] {
+    return ['/enum-devices', '/disconnected', '/class', className, '/relations', '/properties'];
+}
+
+// One argument list per pnputil call of a bulk enumeration - the /disconnected dumps come last
+function pnputilCalls(options: EnumerationOptions): string[][] {
+    const calls = PNPUTIL_CLASSES.map(pnputilArgs);
+    if (options.includeProblemDevices) calls.push(pnputilProblemArgs());
+    if (options.includeDisconnected) calls.push(...PNPUTIL_CLASSES.map(pnputilDisconnectedArgs));
+    return calls;
+}
+
+// Loggers already told about an unrecognized output language (once per logger, not per enumeration)
+const warnedUnknownLocale = new WeakSet<USBTreeLogger>();
 
 /**
- * Run PowerShell script and get USB tree data using pnputil
- * This is the fast path implementation ported from v1.0.1
+ * Build USBTreeData from pnputil class dumps - live calls, or a replayed capture
+ * With options.includeDisconnected the last outputs are the /disconnected dumps (see pnputilCalls)
+ * @throws ParseError if no USB device was found (e.g. usage text of an old pnputil); warns once per logger
+ * when the output language was not recognized and the devices were found by structure
  */
-export function getUSBTreeDataPnputil(): {
-    devices: Map<string, USBDevice>;
-    comPorts: Map<string, { instancePath: string; kernelName: string; channel?: number }>;
-} {
-    const psScript = `
+export function pnputilOutputsToTreeData(
+    outputs: string[],
+    options: EnumerationOptions = {},
+    logger: USBTreeLogger = consoleLogger,
+    backend: USBTreeBackend = 'pnputil'
+): USBTreeData {
+    const phantomOutputs = options.includeDisconnected ? outputs.slice(-PNPUTIL_CLASSES.length) : [];
+    const liveOutputs = outputs.slice(0, outputs.length - phantomOutputs.length);
+    const blocks: PnputilDevice[] = [];
+    const unknownLabels = new Set<string>();
+    let locale: string | null = null;
+    for (const output of liveOutputs) {
+        const result = parsePnputilOutputWithDiagnostics(output);
+        blocks.push(...result.devices);
+        result.diagnostics.unknownLabels.forEach(label => unknownLabels.add(label));
+        locale = locale || result.diagnostics.locale;
+    }
+
+    const data: USBTreeData = pnputilDevicesToTreeData(blocks, options);
+    if (options.includeDisconnected) {
+        data.disconnected = pnputilPhantomsToTreeData(phantomOutputs.flatMap(output => parsePnputilOutputWithDiagnostics(output).devices));
+    }
+    if (data.devices.size === 0) {
+        // Old pnputil versions reject /relations or /properties and print their usage text instead
+        const labels = locale ? '' : ` (unrecognized labels: ${[...unknownLabels].slice(0, 5).join(', ') || 'none'})`;
+        const lines = liveOutputs.join('\n').split(/\r?\n/);
+        const first = lines.findIndex(line => line.trim() !== '');
+        throw new ParseError(`pnputil output contained no USB devices${labels}`, first >= 0 ? lines[first].trim() : '', first + 1, { backend });
+    }
+    if (!locale && !warnedUnknownLocale.has(logger)) {
+        // Structural parsing worked, but names may be less complete - worth a label table entry
+        warnedUnknownLocale.add(logger);
+        logger.warn(`pnputil output language not recognized, parsed by structure (labels: ${[...unknownLabels].slice(0, 5).join(', ')}). Please report these labels.`);
+    }
+    return { ...data, backend };
+}
+
+/**
+ * Get USB tree data from a few bulk pnputil calls, parsed in TypeScript
+ * Runners without run() (custom/older runners) still get the legacy PNPUTIL_SCRIPT, which only reports started devices
+ */
+export function getUSBTreeDataPnputil(
+    runner: CommandRunner = defaultCommandRunner,
+    logger: USBTreeLogger = consoleLogger,
+    options: EnumerationOptions = {}
+): USBTreeData {
+    if (!runner.run) {
+        return { ...parseTreeDataOutput(runner.runPowerShell(PNPUTIL_SCRIPT), {}, logger), backend: 'pnputil' };
+    }
+    return pnputilOutputsToTreeData(pnputilCalls(options).map(args => runner.run!('pnputil', args)), options, logger);
+}
+
+/**
+ * Non-blocking variant of getUSBTreeDataPnputil (the class dumps run in parallel)
+ */
+export async function getUSBTreeDataPnputilAsync(
+    runner: AsyncCommandRunner = defaultCommandRunner,
+    options: RunOptions = {},
+    logger: USBTreeLogger = consoleLogger,
+    enumeration: EnumerationOptions = {}
+): Promise<USBTreeData> {
+    if (!runner.runAsync) {
+        return { ...parseTreeDataOutput(await runner.runPowerShellAsync(PNPUTIL_SCRIPT, options), {}, logger), backend: 'pnputil' };
+    }
+    const outputs = await Promise.all(pnputilCalls(enumeration).map(args => runner.runAsync!('pnputil', args, options)));
+    return pnputilOutputsToTreeData(outputs, enumeration, logger);
+}
+
+/**
+ * Legacy fast path script - emits the DEVICE|... / COMPORT|... line protocol
+ * @deprecated Only used for runners without run()/runAsync(); spawns pnputil once per device
+ */
+export const PNPUTIL_SCRIPT = `
 $ErrorActionPreference = 'SilentlyContinue'
 
 # Get ONLY currently connected/started USB devices using pnputil
@@ -117,22 +221,44 @@ foreach ($line in $comPortOutput -split "\`n") {
             $comPort = "COM$($matches[1])"
             $kernelName = if ($pdoMap[$currentInstanceId]) { $pdoMap[$currentInstanceId] } else { "" }
             
-            # Determine if this is FTDI or regular USB COM port
+            # FTDIBUS ports and composite interfaces need their parent USB device
+            $portParent = ""
+            if ($currentInstanceId -match "^FTDIBUS\\\\" -or $currentInstanceId -match "&MI_[0-9A-Fa-f]{2}\\\\") {
+                $relations = pnputil /enum-devices /instanceid "$currentInstanceId" /relations 2>$null
+                $parentLine = ($relations | Select-String "Parent:" | Select-Object -First 1)
+                if ($parentLine) {
+                    $portParent = ($parentLine -replace "^\\s*Parent:\\s*", "").Trim()
+                }
+            }
+
+            # Determine if this is FTDI, a composite interface or regular USB COM port
             if ($currentInstanceId -match "^FTDIBUS\\\\") {
-                # FTDI: FTDIBUS\\VID_0403+PID_6010+...\\0000
+                # FTDI: FTDIBUS\\VID_0403+PID_6011+FT4ABCDB\\0000 (serial + channel letter)
+                #   or  FTDIBUS\\VID_0403+PID_6010+7&b5542c6&0&2&1\\0000 (no serial, channel number)
                 $channel = 0
-                $parentDeviceId = ""
+                $parentUsbPath = ""
                 if ($currentInstanceId -match "VID_([0-9A-Fa-f]+)\\+PID_([0-9A-Fa-f]+)\\+(.+?)\\\\") {
+                    $vidVal = $matches[1]
+                    $pidVal = $matches[2]
                     $parentDeviceId = $matches[3]
-                    # Channel is the last part: 7&b5542c6&0&2&1 -> channel 1
                     if ($parentDeviceId -match "&(\\d+)$") {
                         $channel = [int]$matches[1]
                         $parentDeviceId = $parentDeviceId -replace "&\\d+$", ""
+                    } elseif ($parentDeviceId -match "^(.+)([A-Da-d])$") {
+                        $channel = [int][char]$matches[2].ToUpper() - 64
+                        $parentDeviceId = $matches[1]
                     }
+                    $parentUsbPath = "USB\\VID_$vidVal&PID_$pidVal\\$parentDeviceId"
                 }
-                $parentUsbPath = "USB\\VID_0403&PID_6010\\$parentDeviceId"
+                # The bus driver's USB device is the real parent when known
+                if ($portParent) { $parentUsbPath = $portParent }
                 Write-Output "COMPORT|$comPort|$parentUsbPath|$channel|$kernelName"
             }
+            elseif ($currentInstanceId -match "^USB\\\\.*&MI_([0-9A-Fa-f]{2})\\\\" -and $portParent) {
+                # Composite interface: USB\\VID_10C4&PID_EA70&MI_01\\... -> parent composite device, interface 1
+                $interface = [Convert]::ToInt32($matches[1], 16)
+                Write-Output "COMPORT|$comPort|$portParent|0|$kernelName|$interface"
+            }
             elseif ($currentInstanceId -match "^USB\\\\") {
                 # Regular USB: USB\\VID_10C4&PID_EA60\\xxxx
                 Write-Output "COMPORT|$comPort|$currentInstanceId|0|$kernelName"
@@ -141,65 +267,3 @@ foreach ($line in $comPortOutput -split "\`n") {
     }
 }
 `;
-
-    const tmpFile = join(tmpdir(), `usb-tree-${Date.now()}.ps1`);
-    writeFileSync(tmpFile, psScript);
-
-    try {
-        const output = execSync(
-            `powershell -ExecutionPolicy Bypass -File "${tmpFile}"`,
-            { encoding: 'utf8', maxBuffer: 10 * 1024 * 1024 }
-        );
-
-        const devices = new Map<string, USBDevice>();
-        const comPorts = new Map<string, { instancePath: string; kernelName: string; channel?: number }>();
-
-        for (const line of output.split('\n')) {
-            const trimmed = line.trim();
-
-            if (trimmed.startsWith('DEVICE|')) {
-                const parts = trimmed.split('|');
-                if (parts.length >= 9) {
-                    const [, instancePath, vid, pid, instanceId, parentPath, portNum, isHubStr, ...nameParts] = parts;
-                    const name = nameParts.join('|');
-
-                    // Check if instance ID looks like a real serial (no & characters, reasonable length)
-                    const looksLikeSerial = !instanceId.includes('&') && instanceId.length >= 4 && instanceId.length <= 32;
-
-                    devices.set(instancePath.toUpperCase(), {
-                        instancePath,
-                        vid: vid.toUpperCase(),
-                        pid: pid.toUpperCase(),
-                        serialNumber: looksLikeSerial ? instanceId : '',
-                        instanceId,
-                        parentPath: parentPath && !parentPath.startsWith('PCI\\') ? parentPath : null,
-                        portNumber: parseInt(portNum) || 0,
-                        isHub: isHubStr === 'True',
-                        name: getDeviceName(vid, pid, name),
-                        comPorts: [],
-                        children: [],
-                        portChain: '',
-                        kernelName: '',
-                    });
-                }
-            } else if (trimmed.startsWith('COMPORT|')) {
-                const parts = trimmed.split('|');
-                if (parts.length >= 5) {
-                    const [, comPort, instancePath, channelStr, kernelName] = parts;
-                    const channel = parseInt(channelStr) || 0;
-                    comPorts.set(comPort, {
-                        instancePath,
-                        kernelName: kernelName || '',
-                        channel: channel > 0 ? channel : undefined,
-                    });
-                }
-            }
-        }
-
-        unlinkSync(tmpFile);
-        return { devices, comPorts };
-    } catch (error) {
-        try { unlinkSync(tmpFile); } catch { }
-        throw error;
-    }
-}
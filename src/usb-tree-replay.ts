@@ -0,0 +1,66 @@
+/**
+ * Replay Backend
+ * Feeds recorded enumeration output (captured on a Windows machine) into the
+ * same parsing and tree-building code, so topology checks can run on any OS
+ */
+
+import { readFileSync } from 'fs';
+import { USBTreeData, EnumerationOptions, parseTreeDataOutput } from './usb-common';
+import { pnputilOutputsToTreeData } from './usb-tree-pnputil';
+import { CommandRunner, AsyncCommandRunner } from './usb-runner';
+import { USBTreeLogger, consoleLogger } from './usb-errors';
+
+// 'script' = DEVICE|... / COMPORT|... lines, 'pnputil' = raw pnputil /enum-devices block output
+export type ReplayFormat = 'script' | 'pnputil';
+
+/**
+ * Detect which kind of capture a recorded output is
+ */
+export function detectReplayFormat(output: string): ReplayFormat {
+    return /^\s*(DEVICE|COMPORT)\|/m.test(output) ? 'script' : 'pnputil';
+}
+
+/**
+ * Parse recorded output into USBTreeData
+ * Disconnected devices (options.includeDisconnected) come from PHANTOM lines, so only script captures have them
+ * pnputil captures get the same checks as live pnputil output: ParseError without USB devices, a warning for an unknown language
+ */
+export function getUSBTreeDataReplay(
+    output: string,
+    format: ReplayFormat = detectReplayFormat(output),
+    options: EnumerationOptions = {},
+    logger: USBTreeLogger = consoleLogger
+): USBTreeData {
+    if (format === 'pnputil') {
+        return pnputilOutputsToTreeData([output], { ...options, includeDisconnected: false }, logger, 'replay');
+    }
+    return { ...parseTreeDataOutput(output, options, logger), backend: 'replay' };
+}
+
+/**
+ * Read a recorded output fixture file (UTF-8, or UTF-16 LE as written by PowerShell's Out-File)
+ */
+export function readReplayFile(filePath: string): string {
+    const buffer = readFileSync(filePath);
+    if (buffer[0] === 0xFF && buffer[1] === 0xFE) {
+        return buffer.toString('utf16le', 2);
+    }
+    return buffer.toString('utf8').replace(/^\uFEFF/, '');
+}
+
+/**
+ * Runner that answers every PowerShell script with the same recorded script output
+ * Useful for exercising the live backends (and their fallback) without PowerShell
+ * Raw pnputil captures are also returned from run()/runAsync(), so the native pnputil backend parses them
+ */
+export function createReplayRunner(output: string): CommandRunner & AsyncCommandRunner {
+    const runner: CommandRunner & AsyncCommandRunner = {
+        runPowerShell: () => output,
+        runPowerShellAsync: async () => output,
+    };
+    if (detectReplayFormat(output) === 'pnputil') {
+        runner.run = () => output;
+        runner.runAsync = async () => output;
+    }
+    return runner;
+}
@@ -0,0 +1,202 @@
+/**
+ * USB Tree Snapshots
+ * Lossless, versioned JSON form of a USBTree (Maps, shared child objects and comPortMap references)
+ */
+
+import { USBDevice, ComPortInfo, USBTree, USBTreeBackend, DeviceStatus, DriverInfo } from './usb-common';
+import { USBTreeError } from './usb-errors';
+
+export const SNAPSHOT_SCHEMA = 'usb-tree-win/snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+// A device with its children replaced by allDevices keys
+export interface SnapshotDevice extends Omit<USBDevice, 'children'> {
+    key: string;               // Key in USBTree.allDevices
+    children: string[];
+}
+
+export interface SnapshotComPort {
+    port: string;
+    device: string;            // Key of the device holding the port
+    comIndex: number;          // Index into that device's comPorts (-1: comInfo stored inline)
+    comInfo?: ComPortInfo;
+}
+
+export interface USBTreeSnapshot {
+    schema: typeof SNAPSHOT_SCHEMA;
+    version: number;
+    createdAt: string;
+    backend?: USBTreeBackend;
+    devices: SnapshotDevice[];
+    rootHubs: string[];
+    comPortMap: SnapshotComPort[];
+    disconnected?: SnapshotDevice[];   // Only with includeDisconnected (key = instance path, no children)
+}
+
+// Flat form of one device, used by the CLI's --json lists and the HTTP server
+export interface DeviceRecord {
+    portChain: string;
+    vid: string;
+    pid: string;
+    name: string;
+    serialNumber: string;
+    isHub: boolean;
+    kernelName: string;
+    comPorts: ComPortInfo[];
+    instancePath: string;
+    parentPath: string | null;
+    children: string[];        // Port chains
+    status?: DeviceStatus;     // Only with includeProblemDevices
+    problemCode?: number;
+    problemDescription?: string;
+    present?: boolean;         // Only with includeDisconnected
+    lastArrival?: string;
+    lastRemoval?: string;
+    driver?: DriverInfo;       // Windows backends only
+}
+
+/**
+ * Flat JSON record for a device (children as port chains to keep the output bounded)
+ */
+export function toDeviceRecord(dev: USBDevice): DeviceRecord {
+    return {
+        portChain: dev.portChain,
+        vid: dev.vid,
+        pid: dev.pid,
+        name: dev.name,
+        serialNumber: dev.serialNumber,
+        isHub: dev.isHub,
+        kernelName: dev.kernelName,
+        comPorts: dev.comPorts,
+        instancePath: dev.instancePath,
+        parentPath: dev.parentPath,
+        children: dev.children.map(c => c.portChain),
+        status: dev.status,
+        problemCode: dev.problemCode,
+        problemDescription: dev.problemDescription,
+        present: dev.present,
+        lastArrival: dev.lastArrival,
+        lastRemoval: dev.lastRemoval,
+        driver: dev.driver,
+    };
+}
+
+/**
+ * Convert a tree into a JSON-safe snapshot
+ * Every device is stored once - virtual channel nodes are referenced from their parent by key
+ */
+export function serializeUSBTree(tree: USBTree): USBTreeSnapshot {
+    const keys = new Map<USBDevice, string>();
+    for (const [key, dev] of tree.allDevices) {
+        keys.set(dev, key);
+    }
+
+    const keyOf = (dev: USBDevice): string => {
+        const key = keys.get(dev);
+        if (key === undefined) {
+            throw new USBTreeError(`Device ${dev.instancePath} is referenced by the tree but missing from allDevices`);
+        }
+        return key;
+    };
+
+    const devices: SnapshotDevice[] = [];
+    for (const [key, dev] of tree.allDevices) {
+        const { children, comPorts, ...fields } = dev;
+        devices.push({
+            key,
+            ...fields,
+            comPorts: comPorts.map(c => ({ ...c })),
+            children: children.map(keyOf),
+        });
+    }
+
+    const comPortMap: SnapshotComPort[] = [];
+    for (const [port, { device, comInfo }] of tree.comPortMap) {
+        const comIndex = device.comPorts.indexOf(comInfo);
+        comPortMap.push(comIndex >= 0
+            ? { port, device: keyOf(device), comIndex }
+            : { port, device: keyOf(device), comIndex: -1, comInfo: { ...comInfo } });
+    }
+
+    const snapshot: USBTreeSnapshot = {
+        schema: SNAPSHOT_SCHEMA,
+        version: SNAPSHOT_VERSION,
+        createdAt: new Date().toISOString(),
+        backend: tree.backend,
+        devices,
+        rootHubs: tree.rootHubs.map(keyOf),
+        comPortMap,
+    };
+    if (tree.disconnected) {
+        snapshot.disconnected = tree.disconnected.map(({ children, comPorts, ...fields }) => ({
+            key: fields.instancePath.toUpperCase(),
+            ...fields,
+            comPorts: comPorts.map(c => ({ ...c })),
+            children: [],
+        }));
+    }
+    return snapshot;
+}
+
+/**
+ * Rebuild a USBTree from a snapshot object or its JSON text
+ * The result works with getDeviceByPortChain and the other query helpers
+ */
+export function deserializeUSBTree(snapshot: USBTreeSnapshot | string): USBTree {
+    let data: USBTreeSnapshot;
+    try {
+        data = typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot;
+    } catch (error) {
+        throw new USBTreeError(`USB tree snapshot is not valid JSON: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+    }
+
+    if (!data || data.schema !== SNAPSHOT_SCHEMA) {
+        throw new USBTreeError(`Not a USB tree snapshot (expected schema "${SNAPSHOT_SCHEMA}")`);
+    }
+    if (data.version !== SNAPSHOT_VERSION) {
+        throw new USBTreeError(`Unsupported USB tree snapshot version ${data.version} (supported: ${SNAPSHOT_VERSION})`);
+    }
+
+    const allDevices = new Map<string, USBDevice>();
+    for (const record of data.devices) {
+        const { key, children, comPorts, ...fields } = record;
+        allDevices.set(key, { ...fields, comPorts: comPorts.map(c => ({ ...c })), children: [] });
+    }
+
+    const deviceFor = (key: string): USBDevice => {
+        const dev = allDevices.get(key);
+        if (!dev) {
+            throw new USBTreeError(`USB tree snapshot references unknown device "${key}"`);
+        }
+        return dev;
+    };
+
+    for (const record of data.devices) {
+        deviceFor(record.key).children = record.children.map(deviceFor);
+    }
+
+    const comPortMap = new Map<string, { device: USBDevice; comInfo: ComPortInfo }>();
+    for (const entry of data.comPortMap) {
+        const device = deviceFor(entry.device);
+        const comInfo = entry.comIndex >= 0 ? device.comPorts[entry.comIndex] : entry.comInfo;
+        if (!comInfo) {
+            throw new USBTreeError(`USB tree snapshot has no COM info for ${entry.port}`);
+        }
+        comPortMap.set(entry.port, { device, comInfo });
+    }
+
+    const tree: USBTree = {
+        rootHubs: data.rootHubs.map(deviceFor),
+        allDevices,
+        comPortMap,
+        backend: data.backend,
+    };
+    if (data.disconnected) {
+        tree.disconnected = data.disconnected.map(({ key, children, comPorts, ...fields }) => ({
+            ...fields,
+            comPorts: comPorts.map(c => ({ ...c })),
+            children: [],
+        }));
+    }
+    return tree;
+}
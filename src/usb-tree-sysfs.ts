@@ -0,0 +1,130 @@
+/**
+ * Linux sysfs Backend
+ * Walks /sys/bus/usb/devices and produces the same USBTreeData as the Windows backends
+ */
+
+import { readdirSync, readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { USBDevice, USBTreeData, ComPortLink, createUSBDevice } from './usb-common';
+import { BackendFailedError } from './usb-errors';
+
+export const DEFAULT_SYSFS_ROOT = '/sys/bus/usb/devices';
+
+// usb1, usb2, ... (root hubs) and 1-2, 1-2.3.1, ... (devices); interfaces look like 1-2.3:1.0
+const ROOT_HUB_PATTERN = /^usb(\d+)$/;
+const DEVICE_PATTERN = /^(\d+)-([\d.]+)$/;
+const INTERFACE_PATTERN = /^(\d+-[\d.]+):\d+\.\d+$/;
+const TTY_PATTERN = /^tty(USB|ACM)\d+$/;
+
+function readAttribute(dir: string, name: string): string {
+    try {
+        return readFileSync(join(dir, name), 'utf8').trim();
+    } catch {
+        return '';
+    }
+}
+
+function listDir(dir: string): string[] {
+    try {
+        return readdirSync(dir);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Find ttyUSB (usb-serial) and ttyACM (cdc-acm) nodes below an interface directory
+ */
+function findTtyNodes(interfaceDir: string): string[] {
+    const direct = listDir(interfaceDir).filter(name => TTY_PATTERN.test(name));
+    const nested = listDir(join(interfaceDir, 'tty')).filter(name => TTY_PATTERN.test(name));
+    return [...direct, ...nested];
+}
+
+/**
+ * Get USB tree data from Linux sysfs
+ * @param sysfsRoot Directory laid out like /sys/bus/usb/devices (configurable for fake trees)
+ */
+export function getUSBTreeDataSysfs(sysfsRoot: string = DEFAULT_SYSFS_ROOT): USBTreeData {
+    if (!existsSync(sysfsRoot)) {
+        throw new BackendFailedError(`sysfs USB directory not found: ${sysfsRoot}`, null, '', { backend: 'sysfs' });
+    }
+
+    const devices = new Map<string, USBDevice>();
+    const comPorts = new Map<string, ComPortLink>();
+    const entries = listDir(sysfsRoot).sort();
+
+    for (const entry of entries) {
+        const dir = join(sysfsRoot, entry);
+        const rootMatch = ROOT_HUB_PATTERN.exec(entry);
+        const deviceMatch = DEVICE_PATTERN.exec(entry);
+        if (!rootMatch && !deviceMatch) continue;
+
+        let device: USBDevice;
+        if (rootMatch) {
+            // Root hubs mirror the Windows ROOT_HUBxx entries; the bus number starts the port chain
+            const major = parseInt(readAttribute(dir, 'version')) || 2;
+            device = createUSBDevice({
+                instancePath: entry,
+                vid: 'ROOT',
+                pid: `HUB${major}0`,
+                instanceId: entry,
+                parentPath: '',
+                portNumber: parseInt(rootMatch[1]),
+                isHub: true,
+                rawName: 'USB Root Hub',
+            });
+        } else {
+            // 1-2.3.1 -> parent 1-2.3, port 1; 1-2 -> parent usb1, port 2
+            const [, bus, ports] = deviceMatch!;
+            const portList = ports.split('.');
+            const parentPath = portList.length > 1 ? `${bus}-${portList.slice(0, -1).join('.')}` : `usb${bus}`;
+            const vid = readAttribute(dir, 'idVendor');
+            const pid = readAttribute(dir, 'idProduct');
+
+            device = createUSBDevice({
+                instancePath: entry,
+                vid,
+                pid,
+                instanceId: entry,
+                parentPath,
+                portNumber: parseInt(portList[portList.length - 1]) || 0,
+                isHub: readAttribute(dir, 'bDeviceClass') === '09',
+                rawName: readAttribute(dir, 'product'),
+            });
+        }
+
+        // sysfs exposes the real serial descriptor, no need to guess from the instance ID
+        device.serialNumber = readAttribute(dir, 'serial');
+        devices.set(entry.toUpperCase(), device);
+    }
+
+    // Map tty nodes to their owning device; the interface number picks the channel on multi-channel bridges
+    const ttysByDevice = new Map<string, { tty: string; interfaceNumber: number }[]>();
+    for (const entry of entries) {
+        const match = INTERFACE_PATTERN.exec(entry);
+        if (!match) continue;
+
+        const interfaceDir = join(sysfsRoot, entry);
+        const interfaceNumber = parseInt(readAttribute(interfaceDir, 'bInterfaceNumber'), 16) || 0;
+        for (const tty of findTtyNodes(interfaceDir)) {
+            const list = ttysByDevice.get(match[1]) || [];
+            list.push({ tty, interfaceNumber });
+            ttysByDevice.set(match[1], list);
+        }
+    }
+
+    for (const [deviceName, ttys] of ttysByDevice) {
+        if (!devices.has(deviceName.toUpperCase())) continue;
+
+        for (const { tty, interfaceNumber } of ttys) {
+            comPorts.set(`/dev/${tty}`, {
+                instancePath: deviceName,
+                kernelName: tty,
+                interfaceNumber,
+            });
+        }
+    }
+
+    return { devices, comPorts, backend: 'sysfs' };
+}
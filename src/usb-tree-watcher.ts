@@ -0,0 +1,242 @@
+/**
+ * USB Tree Watcher
+ * Polls the USB tree and emits attach/detach/COM port events by comparing snapshots
+ */
+
+import { EventEmitter } from 'events';
+import { USBDevice, ComPortInfo, USBTree, isChannelDevice } from './usb-common';
+import { buildUSBTreeAsync, BuildUSBTreeAsyncOptions } from './usb-tree';
+import { USBTreeLogger, consoleLogger } from './usb-errors';
+
+export interface DeviceEvent {
+    device: USBDevice;
+    portChain: string;
+    comPorts: ComPortInfo[];
+}
+
+export interface ComPortEvent {
+    device: USBDevice;         // Device holding the port (the channel child for multi-port devices)
+    portChain: string;
+    comInfo: ComPortInfo;
+}
+
+export interface KernelNameChangedEvent extends ComPortEvent {
+    previousKernelName: string;
+}
+
+export interface USBTreeWatcherEvents {
+    attached: [DeviceEvent];
+    detached: [DeviceEvent];
+    comPortAdded: [ComPortEvent];
+    comPortRemoved: [ComPortEvent];
+    kernelNameChanged: [KernelNameChangedEvent];
+    refresh: [USBTree];        // Emitted after every accepted snapshot
+    error: [Error];
+}
+
+export interface USBTreeWatcherOptions {
+    interval?: number;         // Polling interval in ms (default 2000)
+    debounce?: number;         // A change must still be present after this many ms to be reported (default 500)
+    emitInitial?: boolean;     // Report everything in the first snapshot as attached (default false)
+    buildOptions?: BuildUSBTreeAsyncOptions;
+    source?: () => USBTree | Promise<USBTree>;  // Replaces buildUSBTreeAsync, e.g. a scripted sequence of trees
+}
+
+type ChangeEventName = 'attached' | 'detached' | 'comPortAdded' | 'comPortRemoved' | 'kernelNameChanged';
+type WatcherEvent = { [K in ChangeEventName]: [K, ...USBTreeWatcherEvents[K]] }[ChangeEventName];
+
+function deviceEvent(device: USBDevice): DeviceEvent {
+    return { device, portChain: device.portChain, comPorts: device.comPorts };
+}
+
+function comPortEvent(entry: { device: USBDevice; comInfo: ComPortInfo }): ComPortEvent {
+    return { device: entry.device, portChain: entry.device.portChain, comInfo: entry.comInfo };
+}
+
+/**
+ * Physical devices keyed by instance path (virtual FTDI channel children are reported through COM events)
+ */
+function physicalDevices(tree: USBTree): Map<string, USBDevice> {
+    const devices = new Map<string, USBDevice>();
+    for (const dev of tree.allDevices.values()) {
+        if (!isChannelDevice(dev)) {
+            devices.set(dev.instancePath.toUpperCase(), dev);
+        }
+    }
+    return devices;
+}
+
+/**
+ * Events that turn snapshot `before` into snapshot `after`
+ */
+function compareSnapshots(before: USBTree, after: USBTree): WatcherEvent[] {
+    const events: WatcherEvent[] = [];
+    const beforeDevices = physicalDevices(before);
+    const afterDevices = physicalDevices(after);
+
+    for (const [key, dev] of beforeDevices) {
+        if (!afterDevices.has(key)) events.push(['detached', deviceEvent(dev)]);
+    }
+
+    for (const [port, entry] of before.comPortMap) {
+        const next = after.comPortMap.get(port);
+        if (!next || next.device.instancePath.toUpperCase() !== entry.device.instancePath.toUpperCase()) {
+            events.push(['comPortRemoved', comPortEvent(entry)]);
+        }
+    }
+
+    for (const [key, dev] of afterDevices) {
+        if (!beforeDevices.has(key)) events.push(['attached', deviceEvent(dev)]);
+    }
+
+    for (const [port, entry] of after.comPortMap) {
+        const previous = before.comPortMap.get(port);
+        if (!previous || previous.device.instancePath.toUpperCase() !== entry.device.instancePath.toUpperCase()) {
+            events.push(['comPortAdded', comPortEvent(entry)]);
+        } else if (previous.comInfo.kernelName !== entry.comInfo.kernelName) {
+            events.push(['kernelNameChanged', { ...comPortEvent(entry), previousKernelName: previous.comInfo.kernelName }]);
+        }
+    }
+
+    return events;
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export declare interface USBTreeWatcher {
+    on<K extends keyof USBTreeWatcherEvents>(event: K, listener: (...args: USBTreeWatcherEvents[K]) => void): this;
+    once<K extends keyof USBTreeWatcherEvents>(event: K, listener: (...args: USBTreeWatcherEvents[K]) => void): this;
+    off<K extends keyof USBTreeWatcherEvents>(event: K, listener: (...args: USBTreeWatcherEvents[K]) => void): this;
+    emit<K extends keyof USBTreeWatcherEvents>(event: K, ...args: USBTreeWatcherEvents[K]): boolean;
+}
+
+/**
+ * Periodically rebuilds the USB tree and emits typed change events
+ *
+ * ```typescript
+ * const watcher = new USBTreeWatcher({ interval: 1000 });
+ * watcher.on('comPortAdded', e => console.log(`${e.comInfo.port} on ${e.portChain}`));
+ * watcher.start();
+ * ```
+ */
+export class USBTreeWatcher extends EventEmitter {
+    private readonly interval: number;
+    private readonly debounce: number;
+    private readonly emitInitial: boolean;
+    private readonly source: () => USBTree | Promise<USBTree>;
+    private readonly logger: USBTreeLogger;
+    private current: USBTree | null = null;
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+    private inFlight: Promise<void> | null = null;
+    private generation = 0;    // Bumped by stop() so snapshots taken before it emit nothing
+
+    constructor(options: USBTreeWatcherOptions = {}) {
+        super();
+        this.interval = options.interval ?? 2000;
+        this.debounce = options.debounce ?? 500;
+        this.emitInitial = options.emitInitial ?? false;
+        this.source = options.source ?? (() => buildUSBTreeAsync(options.buildOptions));
+        this.logger = options.buildOptions?.logger ?? consoleLogger;
+    }
+
+    /** Last accepted snapshot (null before the first refresh) */
+    get tree(): USBTree | null {
+        return this.current;
+    }
+
+    get isRunning(): boolean {
+        return this.running;
+    }
+
+    start(): this {
+        if (!this.running) {
+            this.running = true;
+            this.schedule(0);
+        }
+        return this;
+    }
+
+    stop(): void {
+        this.running = false;
+        this.generation++;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Take one snapshot and emit the resulting events
+     * Called by the polling loop; can also be called directly to step a scripted source.
+     * A call made while a snapshot is still being taken waits for that one instead of starting another.
+     */
+    refresh(): Promise<void> {
+        if (!this.inFlight) {
+            this.inFlight = this.takeSnapshot().finally(() => {
+                this.inFlight = null;
+            });
+        }
+        return this.inFlight;
+    }
+
+    private async takeSnapshot(): Promise<void> {
+        const generation = this.generation;
+        let next = await this.source();
+        if (generation !== this.generation) return;
+
+        if (!this.current) {
+            this.current = next;
+            if (this.emitInitial) {
+                const empty: USBTree = { rootHubs: [], allDevices: new Map(), comPortMap: new Map() };
+                this.emitAll(compareSnapshots(empty, next));
+            }
+            this.emit('refresh', next);
+            return;
+        }
+
+        let events = compareSnapshots(this.current, next);
+        if (events.length > 0 && this.debounce > 0) {
+            // Re-enumeration often shows intermediate states - only report what is still there after the debounce
+            await delay(this.debounce);
+            if (generation !== this.generation) return;
+            next = await this.source();
+            if (generation !== this.generation) return;
+            events = compareSnapshots(this.current, next);
+        }
+
+        this.current = next;
+        this.emitAll(events);
+        this.emit('refresh', next);
+    }
+
+    // WatcherEvent already ties each name to its payload, which the typed emit() can't follow through the union
+    private emitAll(events: WatcherEvent[]): void {
+        for (const [name, payload] of events) {
+            super.emit(name, payload);
+        }
+    }
+
+    private schedule(ms: number): void {
+        const generation = this.generation;
+        this.timer = setTimeout(async () => {
+            try {
+                await this.refresh();
+            } catch (error) {
+                if (generation !== this.generation) return;
+                const err = error instanceof Error ? error : new Error(String(error));
+                if (this.listenerCount('error') > 0) {
+                    this.emit('error', err);
+                } else {
+                    this.logger.warn(`USB tree refresh failed: ${err.message}`);
+                }
+            }
+            // A stop() and start() during the refresh has already started a new loop
+            if (this.running && generation === this.generation) {
+                this.schedule(this.interval);
+            }
+        }, ms);
+    }
+}
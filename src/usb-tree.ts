@@ -5,39 +5,86 @@
  * Uses pnputil (fast) with fallback to native PowerShell CIM/WMI calls
  */
 
-import { execSync } from 'child_process';
-import { writeFileSync, unlinkSync } from 'fs';
-import { tmpdir } from 'os';
-import { join } from 'path';
-import { USBDevice, ComPortInfo, USBTree, getDeviceName } from './usb-common';
-import { getUSBTreeDataPnputil } from './usb-tree-pnputil';
+import { USBDevice, ComPortInfo, USBTree, USBTreeData, USBTreeBackend, EnumerationOptions, DisconnectedData, parseTreeDataOutput, applyProblemCode, compareComPortNames, comparePortChains } from './usb-common';
+import { getUSBTreeDataPnputil, getUSBTreeDataPnputilAsync } from './usb-tree-pnputil';
+import { getUSBTreeDataSysfs } from './usb-tree-sysfs';
+import { getUSBTreeDataReplay } from './usb-tree-replay';
+import { CommandRunner, AsyncCommandRunner, RunOptions, defaultCommandRunner, createAbortError } from './usb-runner';
+import { renderTree, RenderTreeOptions } from './usb-render';
+import { getChannelProfile, channelName, channelRole, channelFromInterface } from './usb-channels';
+import { USBTreeError, BackendAttempt, USBTreeLogger, consoleLogger, toBackendError } from './usb-errors';
 
 // Re-export common types for consumers (like index.ts)
 export * from './usb-common';
+export { CommandRunner, AsyncCommandRunner, RunOptions, defaultCommandRunner } from './usb-runner';
+export { ReplayFormat, detectReplayFormat, getUSBTreeDataReplay, readReplayFile, createReplayRunner } from './usb-tree-replay';
+export {
+    PnputilDevice, parsePnputilOutput, pnputilDevicesToTreeData, pnputilPhantomsToTreeData,
+    PNPUTIL_LABELS, PnputilDiagnostics, PnputilParseResult, detectPnputilLocale, parsePnputilOutputWithDiagnostics,
+} from './pnputil-parser';
+export { getUSBTreeDataPnputil, getUSBTreeDataPnputilAsync, pnputilOutputsToTreeData, pnputilArgs, pnputilProblemArgs, pnputilDisconnectedArgs, PNPUTIL_SCRIPT } from './usb-tree-pnputil';
+export { getUSBTreeDataSysfs, DEFAULT_SYSFS_ROOT } from './usb-tree-sysfs';
+export {
+    TreeStyle, RenderColumn, RenderTreeOptions, RenderTableOptions, RenderHtmlOptions, TABLE_COLUMNS, CSV_COLUMNS,
+    renderTree, renderTable, renderMarkdownTable, renderCsv, renderHtmlTable, renderHtmlReport,
+} from './usb-render';
+export {
+    ChannelProfile, FtdiBusId, registerChannelProfile, getChannelProfile, channelName, channelRole, channelFromInterface, parseFtdiBusId,
+} from './usb-channels';
+export { GraphOptions, toDot, toMermaid } from './usb-graph';
+
+export interface BuildUSBTreeOptions {
+    useSlowPath?: boolean;      // Skip pnputil and use the PowerShell CIM/WMI path directly
+    runner?: CommandRunner;     // Executes the enumeration scripts (defaults to powershell.exe)
+    replay?: string;            // Recorded script or pnputil output - no commands are run
+    sysfsRoot?: string;         // Use the Linux sysfs backend rooted here (default on Linux: /sys/bus/usb/devices)
+    logger?: USBTreeLogger;     // Receives the pnputil -> PowerShell fallback warning (default: console.warn)
+    includeProblemDevices?: boolean;    // Also return devices that failed to start (Code 43, no driver, disabled) - Windows backends and replay
+    includeDisconnected?: boolean;      // Also return previously seen devices in USBTree.disconnected - Windows backends and replay
+}
+
+export interface BuildUSBTreeAsyncOptions extends Omit<BuildUSBTreeOptions, 'runner'> {
+    runner?: AsyncCommandRunner;
+    signal?: AbortSignal;       // Cancels the enumeration and kills the running script
+    timeout?: number;           // Per-backend limit in ms; a pnputil timeout falls back to PowerShell
+}
+
+// aliases: show alias names next to the devices they match; style: 'ascii' (default) or 'unicode'
+export type PrintUSBTreeOptions = RenderTreeOptions;
 
 /**
- * Run PowerShell script and get USB tree data - ONLY CONNECTED DEVICES
- * (Fallback method using native CIM/WMI)
+ * Slow path script (native CIM/WMI) - emits the DEVICE|... / COMPORT|... / DRIVER|... / COMDRIVER|... line protocol
+ * With $IncludeProblemDevices set (see powerShellScript) it also emits STATUS|... lines,
+ * with $IncludeDisconnected PHANTOM|... / PHANTOMCOM|... lines for devices Windows remembers
  */
-function getUSBTreeDataPowerShell(): {
-    devices: Map<string, USBDevice>;
-    comPorts: Map<string, { instancePath: string; kernelName: string; channel?: number }>;
-} {
-    const psScript = `
+export const POWERSHELL_SCRIPT = `
 $ErrorActionPreference = 'SilentlyContinue'
 
-# 1. Get all connected PnP entities once (fastest method)
-$allDevices = Get-CimInstance -ClassName Win32_PnPEntity -Filter "Status='OK'"
+# 1. Get all connected PnP entities once (fastest method) - only started ones unless problem or disconnected devices are wanted
+if ($IncludeProblemDevices -or $IncludeDisconnected) {
+    $allDevices = Get-CimInstance -ClassName Win32_PnPEntity
+} else {
+    $allDevices = Get-CimInstance -ClassName Win32_PnPEntity -Filter "Status='OK'"
+}
 
 # 2. Build lookup tables and lists in memory
+$presentDevices = @{}
 $connectedDevices = @{}
+$entities = @{}
 $portsDevices = @()
 $usbInstanceIds = @()
 
 foreach ($dev in $allDevices) {
-    if ($dev.PNPClass -eq 'USB' -or $dev.PNPClass -eq 'USBDevice' -or $dev.PNPClass -eq 'Ports') {
+    # Present but not started devices are neither listed nor phantoms unless problem devices are wanted
+    $presentDevices[$dev.PNPDeviceID.ToUpper()] = $true
+    if (-not $IncludeProblemDevices -and $dev.Status -ne 'OK') { continue }
+    
+    # Devices without a driver (Code 28) have no class yet
+    $noDriver = $IncludeProblemDevices -and -not $dev.PNPClass -and $dev.PNPDeviceID -match "^USB\\\\"
+    if ($dev.PNPClass -eq 'USB' -or $dev.PNPClass -eq 'USBDevice' -or $dev.PNPClass -eq 'Ports' -or $noDriver) {
         $id = $dev.PNPDeviceID
         $connectedDevices[$id.ToUpper()] = $true
+        $entities[$id.ToUpper()] = $dev
         $usbInstanceIds += $id
         
         if ($dev.PNPClass -eq 'Ports') {
@@ -76,8 +123,36 @@ if ($usbInstanceIds.Count -gt 0) {
     }
 }
 
-# 4. Enumerate Registry for structure (fast)
+# 3b. Bulk fetch parents and connection times of remembered USB devices and interfaces that are not present
 $usbPath = "HKLM:\\SYSTEM\\CurrentControlSet\\Enum\\USB"
+$phantomArrival = @{}
+$phantomRemoval = @{}
+if ($IncludeDisconnected) {
+    $phantomIds = @()
+    Get-ChildItem $usbPath | ForEach-Object {
+        $vidPidKey = $_.PSChildName
+        Get-ChildItem $_.PSPath | ForEach-Object {
+            $id = "USB\\$vidPidKey\\$($_.PSChildName)"
+            if (-not $presentDevices[$id.ToUpper()]) { $phantomIds += $id }
+        }
+    }
+    for ($i = 0; $i -lt $phantomIds.Count; $i += 20) {
+        $count = [Math]::Min(20, $phantomIds.Count - $i)
+        $batch = $phantomIds[$i..($i+$count-1)]
+        $props = Get-PnpDeviceProperty -InstanceId $batch -KeyName 'DEVPKEY_Device_Parent','DEVPKEY_Device_LastArrivalDate','DEVPKEY_Device_LastRemovalDate'
+        foreach ($p in $props) {
+            if (-not $p.Data) { continue }
+            $key = $p.InstanceId.ToUpper()
+            switch ($p.KeyName) {
+                'DEVPKEY_Device_Parent' { $parentMap[$key] = $p.Data }
+                'DEVPKEY_Device_LastArrivalDate' { $phantomArrival[$key] = $p.Data.ToUniversalTime().ToString('o') }
+                'DEVPKEY_Device_LastRemovalDate' { $phantomRemoval[$key] = $p.Data.ToUniversalTime().ToString('o') }
+            }
+        }
+    }
+}
+
+# 4. Enumerate Registry for structure (fast)
 
 Get-ChildItem $usbPath | ForEach-Object {
     $vidPidKey = $_.PSChildName
@@ -88,8 +163,23 @@ Get-ChildItem $usbPath | ForEach-Object {
         
         $instancePath = "USB\\$vidPidKey\\$instanceId"
         
-        # Skip if not currently connected
-        if (-not $connectedDevices[$instancePath.ToUpper()]) { return }
+        # Skip if not currently connected (unless disconnected devices are wanted as PHANTOM lines)
+        $connected = [bool]$connectedDevices[$instancePath.ToUpper()]
+        if (-not $connected -and (-not $IncludeDisconnected -or $presentDevices[$instancePath.ToUpper()])) { return }
+        
+        # Last COM port of a disconnected CDC/CP210x device or composite interface (FTDI ports: see 4b)
+        if (-not $connected) {
+            $portName = (Get-ItemProperty "$fullPath\\Device Parameters").PortName
+            if ($portName -match "^COM\\d+$") {
+                if ($vidPidKey -match "&MI_([0-9A-Fa-f]{2})") {
+                    $interface = [Convert]::ToInt32($matches[1], 16)
+                    $owner = $parentMap[$instancePath.ToUpper()]
+                    if ($owner) { Write-Output "PHANTOMCOM|$portName|$owner|0||$interface" }
+                } else {
+                    Write-Output "PHANTOMCOM|$portName|$instancePath|0|"
+                }
+            }
+        }
         
         # Skip interface devices (MI_xx)
         if ($vidPidKey -match "&MI_\\d+") { return }
@@ -130,7 +220,41 @@ Get-ChildItem $usbPath | ForEach-Object {
         
         $name = if ($props.FriendlyName) { $props.FriendlyName } elseif ($props.DeviceDesc) { $props.DeviceDesc } else { $vidPidKey }
         
+        # Problem devices: CIM has the resolved name, e.g. "Unknown USB Device (Device Descriptor Request Failed)"
+        $entity = $entities[$instancePath.ToUpper()]
+        $problemCode = [int]$entity.ConfigManagerErrorCode
+        if ($problemCode -ne 0 -and $entity.Name) { $name = $entity.Name }
+        
+        # Driver details live in the driver's class key (Driver = "{class GUID}\\0003")
+        if ($props.Service -or $props.Driver) {
+            $driverKey = if ($props.Driver) { Get-ItemProperty "HKLM:\\SYSTEM\\CurrentControlSet\\Control\\Class\\$($props.Driver)" } else { $null }
+            Write-Output "DRIVER|$instancePath|$($props.Service)|$($driverKey.ProviderName)|$($driverKey.DriverVersion)|$($driverKey.DriverDate)|$($driverKey.InfPath)"
+        }
+        
+        if (-not $connected) {
+            $arrival = $phantomArrival[$instancePath.ToUpper()]
+            $removal = $phantomRemoval[$instancePath.ToUpper()]
+            if (-not $arrival) { $arrival = "" }
+            if (-not $removal) { $removal = "" }
+            Write-Output "PHANTOM|$instancePath|$vidVal|$pidVal|$instanceId|$parentPath|$portNumber|$isHub|$arrival|$removal|$name"
+            return
+        }
+        
         Write-Output "DEVICE|$instancePath|$vidVal|$pidVal|$instanceId|$parentPath|$portNumber|$isHub|$name"
+        if ($IncludeProblemDevices) { Write-Output "STATUS|$instancePath|$problemCode" }
+    }
+}
+
+# 4b. Last COM ports of disconnected FTDI channels - the FTDIBUS port ID names its USB device
+if ($IncludeDisconnected) {
+    Get-ChildItem "HKLM:\\SYSTEM\\CurrentControlSet\\Enum\\FTDIBUS" | ForEach-Object {
+        $busKey = $_.PSChildName
+        Get-ChildItem $_.PSPath | ForEach-Object {
+            $portId = "FTDIBUS\\$busKey\\$($_.PSChildName)"
+            if ($presentDevices[$portId.ToUpper()]) { return }
+            $portName = (Get-ItemProperty "$($_.PSPath)\\Device Parameters").PortName
+            if ($portName -match "^COM\\d+$") { Write-Output "PHANTOMCOM|$portName|$portId|0|" }
+        }
     }
 }
 
@@ -164,22 +288,43 @@ foreach ($dev in $portsDevices) {
         $pdoName = $kernelNames[$currentInstanceId.ToUpper()]
         if (-not $pdoName) { $pdoName = "" }
         
-        # Determine if this is FTDI or regular USB COM port
+        $portParent = $parentMap[$currentInstanceId.ToUpper()]
+
+        # The port's own driver (FTSER2K, usbser, ...) - for channel children, whose bridge runs FTDIBUS or usbccgp
+        $portKey = Get-ItemProperty "HKLM:\\SYSTEM\\CurrentControlSet\\Enum\\$currentInstanceId"
+        if ($portKey.Service -or $portKey.Driver) {
+            $driverKey = if ($portKey.Driver) { Get-ItemProperty "HKLM:\\SYSTEM\\CurrentControlSet\\Control\\Class\\$($portKey.Driver)" } else { $null }
+            Write-Output "COMDRIVER|$comPort|$($portKey.Service)|$($driverKey.ProviderName)|$($driverKey.DriverVersion)|$($driverKey.DriverDate)|$($driverKey.InfPath)"
+        }
+
+        # Determine if this is FTDI, a composite interface or regular USB COM port
         if ($currentInstanceId -match "^FTDIBUS\\\\") {
-            # FTDI: FTDIBUS\\VID_0403+PID_6010+...\\0000
+            # FTDI: FTDIBUS\\VID_0403+PID_6011+FT4ABCDB\\0000 (serial + channel letter)
+            #   or  FTDIBUS\\VID_0403+PID_6010+7&b5542c6&0&2&1\\0000 (no serial, channel number)
             $channel = 0
-            $parentDeviceId = ""
+            $parentUsbPath = ""
             if ($currentInstanceId -match "VID_([0-9A-Fa-f]+)\\+PID_([0-9A-Fa-f]+)\\+(.+?)\\\\") {
+                $vidVal = $matches[1]
+                $pidVal = $matches[2]
                 $parentDeviceId = $matches[3]
-                # Channel is the last part: 7&b5542c6&0&2&1 -> channel 1
                 if ($parentDeviceId -match "&(\\d+)$") {
                     $channel = [int]$matches[1]
                     $parentDeviceId = $parentDeviceId -replace "&\\d+$", ""
+                } elseif ($parentDeviceId -match "^(.+)([A-Da-d])$") {
+                    $channel = [int][char]$matches[2].ToUpper() - 64
+                    $parentDeviceId = $matches[1]
                 }
+                $parentUsbPath = "USB\\VID_$vidVal&PID_$pidVal\\$parentDeviceId"
             }
-            $parentUsbPath = "USB\\VID_0403&PID_6010\\$parentDeviceId"
+            # The bus driver's USB device is the real parent when known
+            if ($portParent) { $parentUsbPath = $portParent }
             Write-Output "COMPORT|$comPort|$parentUsbPath|$channel|$pdoName"
         }
+        elseif ($currentInstanceId -match "^USB\\\\.*&MI_([0-9A-Fa-f]{2})\\\\" -and $portParent) {
+            # Composite interface: USB\\VID_10C4&PID_EA70&MI_01\\... -> parent composite device, interface 1
+            $interface = [Convert]::ToInt32($matches[1], 16)
+            Write-Output "COMPORT|$comPort|$portParent|0|$pdoName|$interface"
+        }
         elseif ($currentInstanceId -match "^USB\\\\") {
             # Regular USB: USB\\VID_10C4&PID_EA60\\xxxx
             Write-Output "COMPORT|$comPort|$currentInstanceId|0|$pdoName"
@@ -188,105 +333,170 @@ foreach ($dev in $portsDevices) {
 }
 `;
 
-    const tmpFile = join(tmpdir(), `usb-tree-${Date.now()}.ps1`);
-    writeFileSync(tmpFile, psScript);
+/**
+ * POWERSHELL_SCRIPT with its switches set for these options
+ */
+export function powerShellScript(options: EnumerationOptions = {}): string {
+    const switches = [
+        options.includeProblemDevices ? '$IncludeProblemDevices = $true\n' : '',
+        options.includeDisconnected ? '$IncludeDisconnected = $true\n' : '',
+    ];
+    return switches.join('') + POWERSHELL_SCRIPT;
+}
 
+/**
+ * Run PowerShell script and get USB tree data - ONLY CONNECTED DEVICES
+ * (Fallback method using native CIM/WMI)
+ */
+export function getUSBTreeDataPowerShell(
+    runner: CommandRunner = defaultCommandRunner,
+    options: EnumerationOptions = {},
+    logger: USBTreeLogger = consoleLogger
+): USBTreeData {
+    return { ...parseTreeDataOutput(runner.runPowerShell(powerShellScript(options)), options, logger), backend: 'powershell' };
+}
+
+/**
+ * Non-blocking variant of getUSBTreeDataPowerShell
+ */
+export async function getUSBTreeDataPowerShellAsync(
+    runner: AsyncCommandRunner = defaultCommandRunner,
+    options: RunOptions = {},
+    enumeration: EnumerationOptions = {},
+    logger: USBTreeLogger = consoleLogger
+): Promise<USBTreeData> {
+    return { ...parseTreeDataOutput(await runner.runPowerShellAsync(powerShellScript(enumeration), options), enumeration, logger), backend: 'powershell' };
+}
+
+// Run one backend, recording the attempt; failures are re-thrown as typed errors carrying every attempt so far
+function attempt(attempts: BackendAttempt[], backend: USBTreeBackend, enumerate: () => USBTreeData): USBTreeData {
+    const start = Date.now();
     try {
-        const output = execSync(
-            `powershell -ExecutionPolicy Bypass -File "${tmpFile}"`,
-            { encoding: 'utf8', maxBuffer: 10 * 1024 * 1024 }
-        );
-
-        const devices = new Map<string, USBDevice>();
-        const comPorts = new Map<string, { instancePath: string; kernelName: string; channel?: number }>();
-
-        for (const line of output.split('\n')) {
-            const trimmed = line.trim();
-
-            if (trimmed.startsWith('DEVICE|')) {
-                const parts = trimmed.split('|');
-                if (parts.length >= 9) {
-                    const [, instancePath, vid, pid, instanceId, parentPath, portNum, isHubStr, ...nameParts] = parts;
-                    const name = nameParts.join('|');
-
-                    // Check if instance ID looks like a real serial (no & characters, reasonable length)
-                    const looksLikeSerial = !instanceId.includes('&') && instanceId.length >= 4 && instanceId.length <= 32;
-
-                    devices.set(instancePath.toUpperCase(), {
-                        instancePath,
-                        vid: vid.toUpperCase(),
-                        pid: pid.toUpperCase(),
-                        serialNumber: looksLikeSerial ? instanceId : '',
-                        instanceId,
-                        parentPath: parentPath && !parentPath.startsWith('PCI\\') ? parentPath : null,
-                        portNumber: parseInt(portNum) || 0,
-                        isHub: isHubStr === 'True',
-                        name: getDeviceName(vid, pid, name),
-                        comPorts: [],
-                        children: [],
-                        portChain: '',
-                        kernelName: '',
-                    });
-                }
-            } else if (trimmed.startsWith('COMPORT|')) {
-                const parts = trimmed.split('|');
-                if (parts.length >= 5) {
-                    const [, comPort, instancePath, channelStr, kernelName] = parts;
-                    const channel = parseInt(channelStr) || 0;
-                    comPorts.set(comPort, {
-                        instancePath,
-                        kernelName: kernelName || '',
-                        channel: channel > 0 ? channel : undefined,
-                    });
-                }
-            }
-        }
+        const data = enumerate();
+        attempts.push({ backend, ok: true, duration: Date.now() - start });
+        return { ...data, attempts };
+    } catch (error) {
+        throw failedAttempt(attempts, backend, error, start);
+    }
+}
 
-        unlinkSync(tmpFile);
-        return { devices, comPorts };
+async function attemptAsync(attempts: BackendAttempt[], backend: USBTreeBackend, enumerate: () => Promise<USBTreeData>): Promise<USBTreeData> {
+    const start = Date.now();
+    try {
+        const data = await enumerate();
+        attempts.push({ backend, ok: true, duration: Date.now() - start });
+        return { ...data, attempts };
     } catch (error) {
-        try { unlinkSync(tmpFile); } catch { }
-        throw error;
+        throw failedAttempt(attempts, backend, error, start);
+    }
+}
+
+function failedAttempt(attempts: BackendAttempt[], backend: USBTreeBackend, error: unknown, start: number): Error {
+    const typed = toBackendError(error, backend);
+    if (typed instanceof USBTreeError) {
+        attempts.push({ backend, ok: false, duration: Date.now() - start, error: typed });
+        typed.attempts = attempts;
     }
+    return typed;
 }
 
 /**
  * Main function to get USB tree data
  * Tries pnputil first (fast), falls back to PowerShell (robust)
+ * On Linux (or when sysfsRoot is given) the sysfs backend is used instead
  */
-function getUSBTreeData(useSlowPath: boolean = false): {
-    devices: Map<string, USBDevice>;
-    comPorts: Map<string, { instancePath: string; kernelName: string; channel?: number }>;
-} {
+export function getUSBTreeData(options: boolean | BuildUSBTreeOptions = false): USBTreeData {
+    const opts: BuildUSBTreeOptions = typeof options === 'boolean' ? { useSlowPath: options } : options;
+    const { useSlowPath = false, runner = defaultCommandRunner, replay, sysfsRoot, logger = consoleLogger } = opts;
+    const enumeration: EnumerationOptions = { includeProblemDevices: opts.includeProblemDevices, includeDisconnected: opts.includeDisconnected };
+    const attempts: BackendAttempt[] = [];
+
+    if (replay !== undefined) {
+        return attempt(attempts, 'replay', () => getUSBTreeDataReplay(replay, undefined, enumeration, logger));
+    }
+
+    if (sysfsRoot !== undefined || (!opts.runner && process.platform === 'linux')) {
+        return attempt(attempts, 'sysfs', () => getUSBTreeDataSysfs(sysfsRoot));
+    }
+
     if (!useSlowPath) {
         // Try pnputil first
         try {
-            return getUSBTreeDataPnputil();
+            return attempt(attempts, 'pnputil', () => getUSBTreeDataPnputil(runner, logger, enumeration));
         } catch (error) {
-            console.warn('Pnputil enumeration failed, falling back to PowerShell/Registry method:', error instanceof Error ? error.message : String(error));
+            logger.warn(`Pnputil enumeration failed, falling back to PowerShell/Registry method: ${error instanceof Error ? error.message : String(error)}`);
         }
     }
-    
-    return getUSBTreeDataPowerShell();
+
+    return attempt(attempts, 'powershell', () => getUSBTreeDataPowerShell(runner, enumeration, logger));
+}
+
+/**
+ * Non-blocking variant of getUSBTreeData - same backend selection and fallback order
+ */
+export async function getUSBTreeDataAsync(options: BuildUSBTreeAsyncOptions = {}): Promise<USBTreeData> {
+    const { useSlowPath = false, runner = defaultCommandRunner, replay, sysfsRoot, signal, timeout, logger = consoleLogger } = options;
+    const enumeration: EnumerationOptions = { includeProblemDevices: options.includeProblemDevices, includeDisconnected: options.includeDisconnected };
+    const attempts: BackendAttempt[] = [];
+
+    if (signal?.aborted) {
+        throw createAbortError();
+    }
+
+    if (replay !== undefined) {
+        return attempt(attempts, 'replay', () => getUSBTreeDataReplay(replay, undefined, enumeration, logger));
+    }
+
+    if (sysfsRoot !== undefined || (!options.runner && process.platform === 'linux')) {
+        return attempt(attempts, 'sysfs', () => getUSBTreeDataSysfs(sysfsRoot));
+    }
+
+    if (!useSlowPath) {
+        // Try pnputil first
+        try {
+            return await attemptAsync(attempts, 'pnputil', () => getUSBTreeDataPnputilAsync(runner, { signal, timeout }, logger, enumeration));
+        } catch (error) {
+            // Cancellation is not a backend failure - don't fall back
+            if (signal?.aborted) {
+                throw createAbortError();
+            }
+            logger.warn(`Pnputil enumeration failed, falling back to PowerShell/Registry method: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    return attemptAsync(attempts, 'powershell', () => getUSBTreeDataPowerShellAsync(runner, { signal, timeout }, enumeration, logger));
+}
+
+/**
+ * Build the USB tree without blocking the event loop
+ * The resolved tree's `backend` field reports which backend produced it
+ */
+export async function buildUSBTreeAsync(options: BuildUSBTreeAsyncOptions = {}): Promise<USBTree> {
+    return buildUSBTreeFromData(await getUSBTreeDataAsync(options));
 }
 
 /**
  * Build the USB tree with proper parent-child relationships
+ * Accepts the legacy useSlowPath boolean or a BuildUSBTreeOptions object
  */
-export function buildUSBTree(useSlowPath: boolean = false): USBTree {
-    const { devices, comPorts } = getUSBTreeData(useSlowPath);
+export function buildUSBTree(options: boolean | BuildUSBTreeOptions = false): USBTree {
+    return buildUSBTreeFromData(getUSBTreeData(options));
+}
+
+/**
+ * Build the USB tree from already enumerated data (any backend, or a replayed capture)
+ */
+export function buildUSBTreeFromData(data: USBTreeData): USBTree {
+    const { devices, comPorts } = data;
     const comPortMap = new Map<string, { device: USBDevice; comInfo: ComPortInfo }>();
 
     // Assign COM ports to devices
     for (const [comPort, info] of comPorts) {
         const dev = devices.get(info.instancePath.toUpperCase());
         if (dev) {
-            const comInfo: ComPortInfo = {
-                port: comPort,
-                kernelName: info.kernelName,
-                channel: info.channel,
-                role: info.channel === 1 ? 'JTAG' : (info.channel === 2 ? 'Serial' : undefined),
-            };
+            const channel = info.channel
+                ?? (info.interfaceNumber !== undefined ? channelFromInterface(dev.vid, dev.pid, info.interfaceNumber) : undefined);
+            const comInfo: ComPortInfo = { port: comPort, kernelName: info.kernelName, channel };
             dev.comPorts.push(comInfo);
             comPortMap.set(comPort, { device: dev, comInfo });
         }
@@ -294,11 +504,7 @@ export function buildUSBTree(useSlowPath: boolean = false): USBTree {
 
     // Sort COM ports numerically on each device
     for (const dev of devices.values()) {
-        dev.comPorts.sort((a, b) => {
-            const numA = parseInt(a.port.replace('COM', ''));
-            const numB = parseInt(b.port.replace('COM', ''));
-            return numA - numB;
-        });
+        labelComPorts(dev);
 
         // If single port, populate kernelName on the device itself so it's available on the USBDevice object
         if (dev.comPorts.length === 1) {
@@ -342,8 +548,8 @@ export function buildUSBTree(useSlowPath: boolean = false): USBTree {
         if (parentChain) {
             dev.portChain = `${parentChain}-${dev.portNumber}`;
         } else {
-            // Root hub starts the chain at 1
-            dev.portChain = '1';
+            // Root hub starts the chain at 1 (sysfs root hubs carry their bus number instead)
+            dev.portChain = dev.portNumber > 0 ? String(dev.portNumber) : '1';
         }
         for (const child of dev.children) {
             buildPortChain(child, dev.portChain);
@@ -372,12 +578,20 @@ export function buildUSBTree(useSlowPath: boolean = false): USBTree {
                     parentPath: dev.instancePath,
                     portNumber: channel,
                     isHub: false,
-                    name: comInfo.port + (comInfo.role ? ` (${comInfo.role})` : ''),
+                    name: comInfo.port + (comInfo.role || comInfo.channelName ? ` (${comInfo.role || comInfo.channelName})` : ''),
                     comPorts: [comInfo],  // This child has just this one COM port
                     children: [],
                     portChain: childPortChain,
                     kernelName: comInfo.kernelName,
                 };
+                if (dev.status !== undefined) {
+                    applyProblemCode(childDevice, dev.problemCode ?? 0);
+                }
+                // The channel's driver is its port's (FTSER2K, usbser, ...), not the bridge's FTDIBUS/usbccgp
+                const driver = comPorts.get(comInfo.port)?.driver;
+                if (driver) {
+                    childDevice.driver = driver;
+                }
 
                 // Add to parent's children
                 dev.children.push(childDevice);
@@ -397,7 +611,49 @@ export function buildUSBTree(useSlowPath: boolean = false): USBTree {
         }
     }
 
-    return { rootHubs, allDevices: devices, comPortMap };
+    const tree: USBTree = { rootHubs, allDevices: devices, comPortMap, backend: data.backend, attempts: data.attempts };
+    if (data.disconnected) {
+        tree.disconnected = disconnectedDevices(data.disconnected);
+    }
+    return tree;
+}
+
+// Sort a device's COM ports and name their channels
+function labelComPorts(dev: USBDevice): void {
+    dev.comPorts.sort((a, b) => compareComPortNames(a.port, b.port));
+
+    // Channels only mean something on multi-channel bridges (a lone CDC port on MI_00 is not "channel A")
+    const profile = getChannelProfile(dev.vid, dev.pid);
+    const multiChannel = dev.comPorts.length > 1 || (profile !== undefined && profile.channels > 1);
+    for (const comInfo of dev.comPorts) {
+        if (!multiChannel || !comInfo.channel) {
+            delete comInfo.channel;
+            continue;
+        }
+        comInfo.channelName = channelName(comInfo.channel);
+        const role = channelRole(dev.vid, dev.pid, comInfo.channel);
+        if (role) comInfo.role = role;
+    }
+}
+
+/**
+ * Disconnected devices with their last COM ports, most recently removed first
+ * They keep their last parentPath/portNumber but get no port chain or virtual channel children -
+ * port chains describe the live topology only
+ */
+function disconnectedDevices(data: DisconnectedData): USBDevice[] {
+    for (const [comPort, info] of data.comPorts) {
+        const dev = data.devices.get(info.instancePath.toUpperCase());
+        if (dev) {
+            const channel = info.channel
+                ?? (info.interfaceNumber !== undefined ? channelFromInterface(dev.vid, dev.pid, info.interfaceNumber) : undefined);
+            dev.comPorts.push({ port: comPort, kernelName: info.kernelName, channel });
+        }
+    }
+
+    const list = [...data.devices.values()];
+    list.forEach(labelComPorts);
+    return list.sort((a, b) => (b.lastRemoval || '').localeCompare(a.lastRemoval || '') || a.name.localeCompare(b.name));
 }
 
 /**
@@ -423,156 +679,13 @@ export function getDevicesByPortChainPrefix(tree: USBTree, prefix: string): USBD
         }
     }
     // Sort by port chain
-    results.sort((a, b) => {
-        const partsA = a.portChain.split('-').map(Number);
-        const partsB = b.portChain.split('-').map(Number);
-        for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
-            const valA = partsA[i] ?? 0;
-            const valB = partsB[i] ?? 0;
-            if (valA !== valB) return valA - valB;
-        }
-        return 0;
-    });
+    results.sort((a, b) => comparePortChains(a.portChain, b.portChain));
     return results;
 }
 
 /**
  * Print the USB tree to console - format similar to USBTreeView
  */
-export function printUSBTree(tree: USBTree): void {
-    console.log('USB Device Tree');
-    console.log(`Connected Devices: ${tree.allDevices.size}`);
-    console.log('');
-
-    function printDevice(dev: USBDevice, prefix: string, isLast: boolean): void {
-        const connector = isLast ? '\\--' : '|--';
-        const vidPid = dev.vid === 'ROOT' ? '' : ` (${dev.vid.toLowerCase()}:${dev.pid.toLowerCase()})`;
-
-        // Build COM port string for single-port devices (multi-port now have children)
-        let comStr = '';
-        if (dev.comPorts.length === 1) {
-            const c = dev.comPorts[0];
-            const roleStr = c.role ? ` (${c.role})` : '';
-            comStr = ` - ${c.port}${roleStr}`;
-        }
-
-        const serialStr = dev.serialNumber ? ` [S/N: ${dev.serialNumber}]` : '';
-
-        console.log(`${prefix}${connector}[${dev.portChain}]: ${dev.name}${vidPid}${serialStr}${comStr}`);
-
-        const childPrefix = prefix + (isLast ? '    ' : '|   ');
-
-        // Show children (includes virtual COM port children for multi-port devices)
-        for (let i = 0; i < dev.children.length; i++) {
-            printDevice(dev.children[i], childPrefix, i === dev.children.length - 1);
-        }
-    }
-
-    for (let i = 0; i < tree.rootHubs.length; i++) {
-        const root = tree.rootHubs[i];
-        console.log(`\\---USB Root Hub (${root.portChain})`);
-        for (let j = 0; j < root.children.length; j++) {
-            printDevice(root.children[j], '    ', j === root.children.length - 1);
-        }
-        console.log('');
-    }
-}
-
-/**
- * Get a flat list of all COM ports with their device info
- */
-export function getComPortList(tree: USBTree): USBDevice[] {
-    const devices: USBDevice[] = [];
-
-    for (const { device } of tree.comPortMap.values()) {
-        devices.push(device);
-    }
-
-    // Sort by COM port number
-    devices.sort((a, b) => {
-        const portA = a.comPorts[0]?.port || '';
-        const portB = b.comPorts[0]?.port || '';
-        const numA = parseInt(portA.replace('COM', '')) || 0;
-        const numB = parseInt(portB.replace('COM', '')) || 0;
-        return numA - numB;
-    });
-
-    return devices;
-}
-
-/**
- * Get a flat list of devices (excluding Root Hubs) sorted by hierarchy
- */
-export function getDeviceTable(tree: USBTree): USBDevice[] {
-    const devices: USBDevice[] = [];
-
-    function collectDevices(dev: USBDevice): void {
-        if (dev.vid !== 'ROOT') {
-            devices.push(dev);
-        }
-
-        for (const child of dev.children) {
-            collectDevices(child);
-        }
-    }
-
-    for (const root of tree.rootHubs) {
-        for (const child of root.children) {
-            collectDevices(child);
-        }
-    }
-
-    return devices;
-}
-
-// Main execution
-if (require.main === module) {
-    console.log('=== USB Tree Enumeration (Connected Devices Only) ===\n');
-
-    try {
-        const tree = buildUSBTree();
-
-        // Print tree
-        printUSBTree(tree);
-
-        // Print COM ports
-        console.log('--- COM Ports ---');
-        const comPorts = getComPortList(tree);
-        if (comPorts.length > 0) {
-            for (const dev of comPorts) {
-                const comInfo = dev.comPorts[0];
-                const role = comInfo.role ? ` (${comInfo.role})` : '';
-                const serial = dev.serialNumber ? ` [S/N: ${dev.serialNumber}]` : '';
-                const kernel = dev.kernelName ? ` [Kernel: ${dev.kernelName}]` : '';
-                console.log(`  ${comInfo.port}: ${dev.name}${serial}${kernel} [Chain: ${dev.portChain}]${role}`);
-            }
-        } else {
-            console.log('  No COM ports found');
-        }
-        console.log('');
-
-        // Print device table
-        console.log('--- Device Table ---');
-        const table = getDeviceTable(tree);
-        console.log('VID:PID    | Name                                     | Serial           | COM Ports        | Port Chain');
-        console.log('-'.repeat(105));
-        for (const dev of table) {
-            const vidPid = `${dev.vid}:${dev.pid}`.padEnd(10);
-            const name = dev.name.substring(0, 40).padEnd(40);
-            const serial = (dev.serialNumber || '-').padEnd(16);
-            
-            const comStr = dev.comPorts.map(c => {
-                const roleStr = c.role ? ` (${c.role[0]})` : '';
-                return `${c.port}${roleStr}`;
-            }).join(', ');
-            const com = (comStr || '-').padEnd(16);
-            
-            const chain = dev.portChain;
-            const hub = dev.isHub ? ' [HUB]' : '';
-            console.log(`${vidPid} | ${name} | ${serial} | ${com} | ${chain}${hub}`);
-        }
-
-    } catch (error) {
-        console.error('Error building USB tree:', error);
-    }
+export function printUSBTree(tree: USBTree, options: PrintUSBTreeOptions = {}): void {
+    console.log(renderTree(tree, options));
 }
@@ -0,0 +1,166 @@
+/**
+ * Waiting for Devices
+ * Poll the tree until a device (or COM port) appears or disappears - e.g. after resetting a board
+ * into its bootloader, where it drops off the bus and may come back with another COM number
+ */
+
+import { USBDevice, USBTree, isChannelDevice, deviceComPorts } from './usb-common';
+import { buildUSBTreeAsync, BuildUSBTreeAsyncOptions } from './usb-tree';
+import { DeviceSelector, parseSelector, query, formatSelector } from './usb-query';
+import { createAbortError } from './usb-runner';
+import { USBTreeError } from './usb-errors';
+
+export interface WaitOptions {
+    timeout?: number;          // Give up after this many ms (default 30000, Infinity = wait forever)
+    pollInterval?: number;     // Pause between enumerations in ms (default 500)
+    signal?: AbortSignal;      // Cancels the wait (rejects with an AbortError)
+    buildOptions?: BuildUSBTreeAsyncOptions;
+    source?: () => USBTree | Promise<USBTree>;  // Replaces buildUSBTreeAsync, e.g. a scripted sequence of trees
+}
+
+export class WaitTimeoutError extends USBTreeError {
+    constructor(
+        message: string,
+        public readonly selector: string,
+        public readonly timeout: number,
+        public readonly seen: string[],            // Last snapshot: devices present instead (or still matching, for waitForRemoval)
+        public readonly lastError?: Error          // Last enumeration failure, if the final attempts failed
+    ) {
+        super(message);
+        this.name = 'WaitTimeoutError';
+    }
+}
+
+const MAX_SEEN = 20;
+
+function describeDevice(dev: USBDevice): string {
+    const com = dev.comPorts.length > 0 ? ` ${dev.comPorts.map(c => c.port).join(', ')}` : '';
+    const serial = dev.serialNumber ? ` S/N ${dev.serialNumber}` : '';
+    return `[${dev.portChain}] ${dev.name} (${dev.vid}:${dev.pid})${serial}${com}`;
+}
+
+// Non-hub devices of a snapshot, with channel children folded into their parent's line
+function presentDevices(tree: USBTree): string[] {
+    return query(tree, { hub: false })
+        .filter(dev => !isChannelDevice(dev))
+        .map(dev => describeDevice({ ...dev, comPorts: deviceComPorts(dev) }));
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Enumerate until check() returns a value, the timeout expires or the caller aborts
+ * Enumeration errors while polling are expected (devices re-enumerating) and only reported on timeout
+ */
+async function poll<T>(
+    what: string,
+    selectorText: string,
+    check: (tree: USBTree) => T | undefined,
+    seen: (tree: USBTree) => string[],
+    seenLabel: string,
+    options: WaitOptions
+): Promise<T> {
+    const timeout = options.timeout ?? 30000;
+    const pollInterval = options.pollInterval ?? 500;
+
+    // One controller for the deadline and the caller's signal, so a hanging enumeration is killed at the deadline too
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    const deadline = Number.isFinite(timeout) ? setTimeout(() => controller.abort(), timeout) : undefined;
+    const source = options.source ?? (() => buildUSBTreeAsync({ ...options.buildOptions, signal: controller.signal }));
+
+    let lastSeen: string[] = [];
+    let lastError: Error | undefined;
+
+    try {
+        while (true) {
+            if (options.signal?.aborted) throw createAbortError();
+            if (controller.signal.aborted) break;
+
+            try {
+                const tree = await source();
+                const result = check(tree);
+                if (result !== undefined) return result;
+                lastSeen = seen(tree);
+                lastError = undefined;
+            } catch (error) {
+                if (options.signal?.aborted) throw createAbortError();
+                if (controller.signal.aborted) break;
+                lastError = error instanceof Error ? error : new Error(String(error));
+            }
+
+            try {
+                await sleep(pollInterval, controller.signal);
+            } catch {
+                if (options.signal?.aborted) throw createAbortError();
+                break;
+            }
+        }
+    } finally {
+        clearTimeout(deadline);
+        options.signal?.removeEventListener('abort', onAbort);
+    }
+
+    const shown = lastSeen.length > MAX_SEEN ? [...lastSeen.slice(0, MAX_SEEN), `... ${lastSeen.length - MAX_SEEN} more`] : lastSeen;
+    const seenText = shown.length > 0 ? `; ${seenLabel}:\n  ${shown.join('\n  ')}` : '; no devices seen';
+    const errorText = lastError ? `; last enumeration failed: ${lastError.message}` : '';
+    throw new WaitTimeoutError(
+        `Timed out after ${timeout} ms waiting for ${what} "${selectorText}"${errorText}${seenText}`,
+        selectorText, timeout, lastSeen, lastError
+    );
+}
+
+function toSelector(selector: string | DeviceSelector): DeviceSelector {
+    return typeof selector === 'string' ? parseSelector(selector) : selector;
+}
+
+/**
+ * Resolve with the first matching device (by port chain) once one is connected
+ *
+ * ```typescript
+ * const dev = await waitForDevice('vid=0483 pid=DF11 chain=1-1-3', { timeout: 10000 });
+ * ```
+ */
+export async function waitForDevice(selector: string | DeviceSelector, options: WaitOptions = {}): Promise<USBDevice> {
+    const sel = toSelector(selector);
+    return poll('device', formatSelector(sel), tree => query(tree, sel)[0], presentDevices, 'seen instead', options);
+}
+
+/**
+ * Resolve with the first matching device that has a COM port - the channel child on multi-port bridges,
+ * so `device.comPorts[0]` is the port to open
+ *
+ * ```typescript
+ * const { comPorts: [com] } = await waitForComPort('vid=0403 pid=6010 role=Serial');
+ * ```
+ */
+export async function waitForComPort(selector: string | DeviceSelector, options: WaitOptions = {}): Promise<USBDevice> {
+    const sel = toSelector(selector);
+    return poll('COM port', formatSelector(sel), tree => query(tree, sel).find(dev => dev.comPorts.length > 0), presentDevices, 'seen instead', options);
+}
+
+/**
+ * Resolve once no connected device matches (e.g. the board dropped off the bus after a reset command)
+ */
+export async function waitForRemoval(selector: string | DeviceSelector, options: WaitOptions = {}): Promise<void> {
+    const sel = toSelector(selector);
+    await poll<true>('removal of', formatSelector(sel),
+        tree => query(tree, sel).length === 0 ? true : undefined,
+        tree => query(tree, sel).map(describeDevice),
+        'still connected',
+        options
+    );
+}
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AliasRegistry, AliasError, SelectorError, DeviceSelector } from '../src/index';
+import { fixtureTree } from './helpers';
+
+const tree = fixtureTree('station-script.txt');
+
+test('aliases resolve to a device and its COM port', () => {
+    const registry = new AliasRegistry({
+        'dut-jtag': { chain: '1-3-1', role: 'JTAG' },
+        'dut-bridge': 'vid=0403 pid=6010',
+        'stm32': { serial: '3678*' },
+    });
+    assert.equal(registry.resolve(tree, 'dut-jtag').comPort!.port, 'COM26');
+    assert.equal(registry.resolve(tree, 'stm32').comPort!.port, 'COM12');
+
+    // A whole multi-channel bridge resolves to the physical device with its first channel's port
+    const bridge = registry.resolve(tree, 'dut-bridge');
+    assert.equal(bridge.device.portChain, '1-3-1');
+    assert.equal(bridge.comPort!.port, 'COM26');
+});
+
+test('unknown, unmatched and ambiguous aliases throw AliasError', () => {
+    const registry = new AliasRegistry({ ch342: 'com=COM3*', esp: 'vid=303A' });
+    assert.throws(() => registry.resolve(tree, 'nope'), { reason: 'unknown' });
+    assert.throws(() => registry.resolve(tree, 'esp'), { reason: 'not-found' });
+    assert.throws(() => registry.resolve(tree, 'ch342'), (error: unknown) => error instanceof AliasError && error.reason === 'ambiguous');
+});
+
+test('selector objects are validated like selector strings', () => {
+    assert.throws(() => new AliasRegistry({ dut: { vdi: '0403' } as DeviceSelector }), SelectorError);
+    assert.throws(() => new AliasRegistry({ dut: { vid: 0x0403 } as unknown as DeviceSelector }), /Alias "dut": Invalid value for vid/);
+    assert.throws(() => new AliasRegistry({ dut: { hub: 'yes' } as unknown as DeviceSelector }), SelectorError);
+    assert.throws(() => new AliasRegistry({ dut: { driverVersion: '<latest' } }), SelectorError);
+});
+
+test('selector objects accept the id shorthand like selector strings', () => {
+    const registry = new AliasRegistry({
+        'cp210x': { id: '10c4:ea60' } as DeviceSelector,
+        'dut-serial': { id: '0403:6010', role: 'Serial' } as DeviceSelector,
+    });
+    assert.equal(registry.resolve(tree, 'cp210x').comPort!.port, 'COM9');
+    assert.equal(registry.resolve(tree, 'dut-serial').comPort!.port, 'COM27');
+    assert.throws(() => new AliasRegistry({ dut: { id: '0403' } as DeviceSelector }), /Alias "dut": Invalid id "0403"/);
+    assert.throws(() => new AliasRegistry({ dut: { id: 0x0403 } as unknown as DeviceSelector }), /Invalid value for id/);
+});
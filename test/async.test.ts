@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    AsyncCommandRunner, RunOptions, buildUSBTreeAsync, defaultCommandRunner, EnumerationTimeoutError,
+} from '../src/index';
+import { createAbortError } from '../src/usb-runner';
+import { fixture, recordingLogger } from './helpers';
+
+// Fake runner: pnputil behaves as given, PowerShell answers with the station capture; records what it was asked to run
+function fakeRunner(pnputil: (options: RunOptions) => Promise<string>) {
+    const calls: { backend: string; options: RunOptions }[] = [];
+    const runner: AsyncCommandRunner = {
+        runAsync: (_command, _args, options = {}) => {
+            calls.push({ backend: 'pnputil', options });
+            return pnputil(options);
+        },
+        runPowerShellAsync: async (_script, options = {}) => {
+            calls.push({ backend: 'powershell', options });
+            return fixture('station-script.txt');
+        },
+    };
+    return { runner, calls };
+}
+
+// Never finishes on its own - rejects like execFile does once the signal fires
+function hangUntilAborted(options: RunOptions): Promise<string> {
+    return new Promise((_resolve, reject) => {
+        options.signal?.addEventListener('abort', () => reject(createAbortError()), { once: true });
+    });
+}
+
+test('an abort rejects with an AbortError and does not fall back to PowerShell', async () => {
+    const { runner, calls } = fakeRunner(hangUntilAborted);
+    const controller = new AbortController();
+    const logger = recordingLogger();
+    const pending = buildUSBTreeAsync({ runner, signal: controller.signal, logger });
+    setTimeout(() => controller.abort(), 10);
+
+    await assert.rejects(pending, { name: 'AbortError' });
+    assert.ok(calls.length > 0);
+    assert.ok(calls.every(call => call.backend === 'pnputil' && call.options.signal === controller.signal));
+    assert.deepEqual(logger.warnings, []);
+});
+
+test('an already aborted signal runs nothing', async () => {
+    const { runner, calls } = fakeRunner(hangUntilAborted);
+    await assert.rejects(buildUSBTreeAsync({ runner, signal: AbortSignal.abort() }), { name: 'AbortError' });
+    assert.deepEqual(calls, []);
+});
+
+test('a pnputil timeout falls back to PowerShell with the same per-backend timeout', async () => {
+    const { runner, calls } = fakeRunner(async options => {
+        throw new EnumerationTimeoutError(`pnputil did not finish within ${options.timeout} ms`, options.timeout!);
+    });
+    const logger = recordingLogger();
+    const tree = await buildUSBTreeAsync({ runner, timeout: 50, logger });
+
+    assert.equal(tree.backend, 'powershell');
+    assert.deepEqual(tree.attempts!.map(a => [a.backend, a.ok]), [['pnputil', false], ['powershell', true]]);
+    assert.ok(tree.attempts![0].error instanceof EnumerationTimeoutError);
+    assert.ok(calls.every(call => call.options.timeout === 50));
+    assert.equal(logger.warnings.length, 1);
+    assert.match(logger.warnings[0], /falling back to PowerShell.*did not finish within 50 ms/);
+});
+
+test('a PowerShell timeout after a pnputil timeout rejects with both attempts', async () => {
+    const runner: AsyncCommandRunner = {
+        runAsync: async () => { throw new EnumerationTimeoutError('pnputil did not finish within 50 ms', 50); },
+        runPowerShellAsync: async () => { throw new EnumerationTimeoutError('PowerShell did not finish within 50 ms', 50); },
+    };
+    await assert.rejects(buildUSBTreeAsync({ runner, timeout: 50, logger: recordingLogger() }), (error: unknown) => {
+        assert.ok(error instanceof EnumerationTimeoutError);
+        assert.deepEqual(error.attempts!.map(a => [a.backend, a.ok]), [['pnputil', false], ['powershell', false]]);
+        return true;
+    });
+});
+
+test('the default runner kills a process that outlives its timeout or signal', async () => {
+    const sleeper = ['-e', 'setTimeout(() => {}, 10000)'];
+    await assert.rejects(defaultCommandRunner.runAsync!(process.execPath, sleeper, { timeout: 100 }), EnumerationTimeoutError);
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    await assert.rejects(defaultCommandRunner.runAsync!(process.execPath, sleeper, { signal: controller.signal }), { name: 'AbortError' });
+});
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CommandRunner, createReplayRunner, runBenchmark, formatBenchmarkReport, timingStats, percentile } from '../src/index';
+import { fixture } from './helpers';
+
+// pnputil answers with the station capture; PowerShell with the same station after the webcam was unplugged
+// and the CP210x re-enumerated as COM10
+function disagreeingRunner(): CommandRunner {
+    const pnputil = createReplayRunner(fixture('pnputil-en.txt'));
+    const powershell = createReplayRunner(fixture('station-script.txt')
+        .split('\n')
+        .filter(line => !line.includes('VID_046D&PID_085E'))
+        .join('\n')
+        .replace(/\|COM9\|/g, '|COM10|'));
+    return { run: pnputil.run, runPowerShell: powershell.runPowerShell };
+}
+
+test('the same station through both backends is consistent', () => {
+    const station = createReplayRunner(fixture('station-script.txt'));
+    const runner: CommandRunner = { run: createReplayRunner(fixture('pnputil-en.txt')).run, runPowerShell: station.runPowerShell };
+    const report = runBenchmark({ backends: ['pnputil', 'powershell'], iterations: 2, runner });
+    assert.deepEqual(report.consistency.map(c => [c.reference, c.backend, c.identical]), [['pnputil', 'powershell', true]]);
+    assert.equal(report.ok, true);
+});
+
+test('disagreeing backends are listed as structured mismatches', () => {
+    const report = runBenchmark({ backends: ['pnputil', 'powershell'], iterations: 3, runner: disagreeingRunner() });
+    assert.equal(report.ok, false);
+    assert.equal(report.consistency.length, 1);
+
+    const [consistency] = report.consistency;
+    assert.deepEqual({ ...consistency, differences: [] }, {
+        reference: 'pnputil',
+        backend: 'powershell',
+        identical: false,
+        added: 0,
+        removed: 1,
+        changed: 2,
+        differences: [],
+    });
+    assert.ok(consistency.differences.some(line => line.startsWith('- ') && line.includes('BRIO')));
+    assert.ok(consistency.differences.some(line => line.includes('COM9') && line.includes('COM10')));
+    assert.match(formatBenchmarkReport(report), /powershell differs from pnputil: 0 added, 1 removed, 2 changed[\s\S]*RESULT: FAILED$/);
+});
+
+test('timing stats are computed across the runs of each backend', () => {
+    const report = runBenchmark({ backends: ['pnputil', 'powershell'], iterations: 4, warmup: 1, runner: disagreeingRunner() });
+    assert.equal(report.iterations, 4);
+    for (const result of report.results) {
+        assert.equal(result.runs, 4);
+        assert.equal(result.samples.length, 4);
+        assert.equal(result.stable, true);
+        assert.deepEqual(result.errors, []);
+        assert.deepEqual(result.timings, timingStats(result.samples));
+        assert.ok(result.timings!.min <= result.timings!.median && result.timings!.median <= result.timings!.max);
+    }
+    assert.deepEqual(report.results.map(r => [r.backend, r.devices, r.comPorts]), [['pnputil', 11, 6], ['powershell', 10, 6]]);
+
+    assert.deepEqual(timingStats([4, 1, 3, 2]), { min: 1, median: 2, p95: 4, mean: 2.5, max: 4 });
+    assert.equal(percentile([], 50), NaN);
+});
+
+test('a failing backend is reported, not replaced by the fallback', () => {
+    const runner: CommandRunner = { ...disagreeingRunner(), run: () => { throw new Error('pnputil is not available'); } };
+    const report = runBenchmark({ backends: ['pnputil', 'powershell'], iterations: 2, runner });
+    assert.deepEqual(report.results.map(r => [r.backend, r.runs, r.timings === null]), [['pnputil', 0, true], ['powershell', 2, false]]);
+    assert.ok(report.results[0].errors.every(error => /pnputil is not available/.test(error)));
+    assert.equal(report.ok, false);
+});
@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { runCli, EXIT_OK } from '../src/index';
+import { FIXTURES } from './helpers';
+
+// First line the default report prints for the station capture with the given options
+function reportHeader(...flags: string[]): string {
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (...args: unknown[]) => { lines.push(args.join(' ')); };
+    try {
+        assert.equal(runCli(['--replay', join(FIXTURES, 'station-script.txt'), ...flags]), EXIT_OK);
+    } finally {
+        console.log = log;
+    }
+    return lines[0];
+}
+
+test('the default report header names the devices it includes', () => {
+    assert.equal(reportHeader(), '=== USB Tree Enumeration (Connected Devices Only) ===\n');
+    assert.equal(reportHeader('--problems'), '=== USB Tree Enumeration (Connected Devices, Problem Devices) ===\n');
+    assert.equal(reportHeader('--disconnected'), '=== USB Tree Enumeration (Connected Devices, Disconnected Devices) ===\n');
+    assert.equal(reportHeader('--problems', '--disconnected'),
+        '=== USB Tree Enumeration (Connected Devices, Problem Devices and Disconnected Devices) ===\n');
+});
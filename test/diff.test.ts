@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffUSBTrees, formatUSBTreeDiff } from '../src/usb-tree-diff';
+import { fixture } from './helpers';
+import { buildUSBTree } from '../src/index';
+
+const before = () => buildUSBTree({ replay: fixture('station-script.txt') });
+
+test('identical captures produce no differences', () => {
+    assert.equal(diffUSBTrees(before(), before()).identical, true);
+});
+
+test('an unplugged device is removed, a new kernel name is a change', () => {
+    const capture = fixture('station-script.txt')
+        .replace(/^.*VID_046D&PID_085E.*$/m, '')
+        .replace('|\\Device\\Silabser0', '|\\Device\\Silabser1');
+    const diff = diffUSBTrees(before(), buildUSBTree({ replay: capture }));
+
+    assert.equal(diff.identical, false);
+    assert.deepEqual(diff.removed.map(d => d.portChain), ['1-6']);
+    assert.deepEqual(diff.added, []);
+    const cp210x = diff.changed.find(c => c.after.portChain === '1-4')!;
+    assert.deepEqual(cp210x.changes.map(c => c.field), ['kernelName', 'comPorts']);
+    assert.ok(formatUSBTreeDiff(diff).some(line => line.startsWith('- [1-6]')));
+});
+
+test('ignored fields are not compared', () => {
+    const capture = fixture('station-script.txt').replace('|\\Device\\Silabser0', '|\\Device\\Silabser1');
+    assert.equal(diffUSBTrees(before(), buildUSBTree({ replay: capture }), { ignore: ['kernelName', 'comPorts'] }).identical, true);
+});
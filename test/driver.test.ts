@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { USBTree, query, getUSBTreeDataReplay } from '../src/index';
+import { fixture, fixtureTree, recordingLogger } from './helpers';
+
+function services(tree: USBTree, chains: string[]): string[] {
+    return chains.map(chain => [...tree.allDevices.values()].find(d => d.portChain === chain)?.driver?.service ?? '');
+}
+
+for (const capture of ['station-script.txt', 'pnputil-en.txt']) {
+    test(`${capture}: bridges keep their bus driver, channel children get the COM port's`, () => {
+        const tree = fixtureTree(capture);
+        assert.deepEqual(services(tree, ['1-3-1', '1-3-1-1', '1-3-1-2']), ['FTDIBUS', 'FTSER2K', 'FTSER2K']);
+        assert.deepEqual(services(tree, ['1-3-4', '1-3-4-1', '1-3-4-2']), ['usbccgp', 'CH343SER_A64', 'CH343SER_A64']);
+        assert.deepEqual(services(tree, ['1-3-2', '1-4']), ['usbser', 'silabser']);
+
+        const port = [...tree.allDevices.values()].find(d => d.portChain === '1-3-4-1')!.driver!;
+        assert.deepEqual(port, { service: 'CH343SER_A64', provider: 'wch.cn', version: '1.8.2024.7', date: '2024-05-20', inf: 'oem57.inf' });
+    });
+}
+
+test('driver selectors match the port driver on channel children', () => {
+    const tree = fixtureTree('station-script.txt');
+    assert.deepEqual(query(tree, 'service=FTSER2K').map(d => d.portChain), ['1-3-1-1', '1-3-1-2']);
+    assert.deepEqual(query(tree, 'service=FTDIBUS').map(d => d.portChain), ['1-3-1']);
+    assert.deepEqual(query(tree, 'provider=wch.cn').map(d => d.portChain), ['1-3-4-1', '1-3-4-2']);
+});
+
+test('truncated DRIVER and COMDRIVER lines are skipped with a warning', () => {
+    const logger = recordingLogger();
+    const capture = fixture('station-script.txt') + 'DRIVER|USB\\VID_10C4&PID_EA60\\0001|WinUSB\nCOMDRIVER|COM9|usbser\n';
+    const data = getUSBTreeDataReplay(capture, 'script', {}, logger);
+    assert.equal(data.devices.get('USB\\VID_10C4&PID_EA60\\0001')?.driver?.service, 'silabser');
+    assert.equal(data.comPorts.get('COM9')?.driver?.service, 'silabser');
+    assert.deepEqual(logger.warnings.map(w => w.replace(/ line \d+/, '')), [
+        'Skipping malformed DRIVER: expected 7 fields, got 3',
+        'Skipping malformed COMDRIVER: expected 7 fields, got 3',
+    ]);
+});
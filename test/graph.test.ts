@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { toDot, toMermaid, getDeviceByPortChain } from '../src/index';
+import { fixtureTree } from './helpers';
+
+// Node lines only (DOT attribute lines, Mermaid class lines and edges left out)
+function dotNodes(dot: string): string[] {
+    return dot.split('\n').filter(line => /^ {4}n\d+ \[label=/.test(line));
+}
+
+test('a prefix renders only that subtree', () => {
+    const tree = fixtureTree('station-script.txt');
+    const dot = toDot(tree, { prefix: '1-3-1' });
+    assert.deepEqual(dotNodes(dot).map(line => /\[(1-[\d-]+)\]/.exec(line)![1]), ['1-3-1', '1-3-1-1', '1-3-1-2']);
+    assert.deepEqual(dot.split('\n').filter(line => line.includes('->')), ['    n0 -> n1 [label="1"];', '    n0 -> n2 [label="2"];']);
+
+    const mermaid = toMermaid(tree, { prefix: '1-3-4' });
+    assert.deepEqual(mermaid.split('\n').filter(line => line.includes('-->')), ['    n0 -->|1| n1', '    n0 -->|2| n2']);
+    assert.ok(!mermaid.includes('FT2232H'));
+});
+
+test('hubs and channel nodes are styled apart from plain devices', () => {
+    const tree = fixtureTree('station-script.txt');
+    const nodes = dotNodes(toDot(tree));
+    const styleOf = (chain: string) => nodes.find(line => line.includes(`[${chain}]`))!.replace(/^.*", /, '');
+    assert.equal(styleOf('1-3'), 'shape=box3d, style=filled, fillcolor="#eaeef2"];');
+    assert.equal(styleOf('1-3-1-1'), 'shape=box, style="rounded,dashed"];');
+    assert.equal(styleOf('1-3-1'), 'shape=box, style=rounded];');
+
+    const mermaid = toMermaid(tree).split('\n');
+    assert.ok(mermaid.includes('    n1[["USB 2.0 Hub<br/>05E3:0610  [1-3]"]]'));
+    assert.ok(mermaid.includes('    n3(["COM26 (JTAG)<br/>0403:6010  [1-3-1-1]<br/>S/N: FT4ABCD"])'));
+    assert.deepEqual(mermaid.filter(line => line.startsWith('    class ')), [
+        '    class n0 root;',
+        '    class n1 hub;',
+        '    class n3,n4,n7,n8 channel;',
+    ]);
+});
+
+test('quotes and brackets in device names are escaped', () => {
+    const tree = fixtureTree('station-script.txt');
+    getDeviceByPortChain(tree, '1-3-2')!.name = 'Probe "A" [rev <2>] C:\\lab';
+
+    const dotLine = dotNodes(toDot(tree, { prefix: '1-3-2' }))[0];
+    assert.equal(dotLine, '    n0 [label="Probe \\"A\\" [rev <2>] C:\\\\lab\\n0483:5740  [1-3-2]\\nS/N: 3678375A3034\\nCOM12", shape=box, style=rounded];');
+
+    const mermaidLine = toMermaid(tree, { prefix: '1-3-2' }).split('\n')[1];
+    assert.equal(mermaidLine, '    n0["Probe #quot;A#quot; [rev #lt;2#gt;] C:\\lab<br/>0483:5740  [1-3-2]<br/>S/N: 3678375A3034<br/>COM12"]');
+});
@@ -0,0 +1,23 @@
+/**
+ * Test Helpers
+ * Recorded enumeration output lives in test/fixtures; the compiled tests run from build-test/test
+ */
+
+import { join } from 'path';
+import { USBTree, USBTreeLogger, BuildUSBTreeOptions, buildUSBTree, readReplayFile } from '../src/index';
+
+export const FIXTURES = join(__dirname, '..', '..', 'test', 'fixtures');
+
+export function fixture(name: string): string {
+    return readReplayFile(join(FIXTURES, name));
+}
+
+export function fixtureTree(name: string, options: BuildUSBTreeOptions = {}): USBTree {
+    return buildUSBTree({ replay: fixture(name), ...options });
+}
+
+// Logger that keeps warnings for assertions instead of printing them
+export function recordingLogger(): USBTreeLogger & { warnings: string[] } {
+    const warnings: string[] = [];
+    return { warnings, warn: message => { warnings.push(message); } };
+}
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildUSBTree } from '../src/index';
+import { IdentityTracker } from '../src/usb-identity';
+import { fixture } from './helpers';
+
+const APP = fixture('station-script.txt');
+// The STM32 on 1-3-2 rebooted into its DFU bootloader: new PID, no COM port
+const BOOTLOADER = APP
+    .replace('USB\\VID_0483&PID_5740\\3678375A3034|0483|5740|3678375A3034', 'USB\\VID_0483&PID_DF11\\3678375A3034|0483|DF11|3678375A3034')
+    .replace(/^COMPORT\|COM12\|.*$/m, '');
+const UNPLUGGED = APP.replace(/^.*VID_0483&PID_5740.*$/gm, '');
+
+const tree = (capture: string) => buildUSBTree({ replay: capture });
+
+test('a board keeps its identity across a mode change', () => {
+    const tracker = new IdentityTracker({ groups: [{ name: 'stm32', ids: ['0483:5740', '0483:DF11'], modes: { '0483:DF11': 'dfu' } }] });
+    tracker.update(tree(APP));
+    assert.equal(tracker.comPort('1-3-2'), 'COM12');
+
+    const transitions = tracker.update(tree(BOOTLOADER));
+    assert.deepEqual(transitions.map(t => [t.kind, t.portChain]), [['mode-change', '1-3-2']]);
+    assert.equal(tracker.get('1-3-2')!.state.mode, 'dfu');
+    assert.equal(tracker.comPort('1-3-2'), undefined);
+
+    tracker.update(tree(APP));
+    assert.equal(tracker.get('1-3-2')!.group, 'stm32');
+    assert.deepEqual(tracker.history('1-3-2').map(t => t.kind), ['attached', 'mode-change', 'mode-change']);
+});
+
+test('detach and re-attach keep the identity', () => {
+    const tracker = new IdentityTracker();
+    tracker.update(tree(APP));
+    assert.deepEqual(tracker.update(tree(UNPLUGGED)).map(t => t.kind), ['detached']);
+    assert.equal(tracker.get('1-3-2')!.present, false);
+    assert.deepEqual(tracker.update(tree(APP)).map(t => t.kind), ['attached']);
+    assert.equal(tracker.get('1-3-2')!.id, '1-3-2');
+});
+
+test('strict mode treats an unrelated device on a known port as a new board', () => {
+    const tracker = new IdentityTracker({ strict: true });
+    tracker.update(tree(APP));
+    tracker.update(tree(BOOTLOADER));
+    assert.equal(tracker.get('1-3-2')!.id, '1-3-2#2');
+    assert.equal(tracker.identities(true).filter(i => i.portChain === '1-3-2').length, 2);
+});
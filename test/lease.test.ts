@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LeaseManager, LeaseError, USBTreeError } from '../src/index';
+import { fixtureTree } from './helpers';
+
+const tree = fixtureTree('station-script.txt');
+
+function leaseDir(): string {
+    return mkdtempSync(join(tmpdir(), 'usb-tree-leases-'));
+}
+
+test('a leased device is skipped by the next worker until released', () => {
+    const dir = leaseDir();
+    const first = new LeaseManager({ dir }).acquireFrom(tree, 'vid=0403 com=COM*', { owner: 'worker-1' });
+    assert.equal(first.comPort!.port, 'COM26');
+
+    const second = new LeaseManager({ dir }).acquireFrom(tree, 'vid=0403 com=COM*', { owner: 'worker-2' });
+    assert.equal(second.comPort!.port, 'COM27');
+
+    assert.throws(() => new LeaseManager({ dir }).acquireFrom(tree, 'vid=0403 com=COM*'), (error: unknown) => {
+        assert.ok(error instanceof LeaseError);
+        assert.equal(error.reason, 'busy');
+        assert.deepEqual(error.holders.map(h => h.owner), ['worker-1', 'worker-2']);
+        return true;
+    });
+
+    first.release();
+    assert.equal(new LeaseManager({ dir }).acquireFrom(tree, 'vid=0403 com=COM*').comPort!.port, 'COM26');
+});
+
+test('an unmatched selector is not-found', () => {
+    assert.throws(() => new LeaseManager({ dir: leaseDir() }).acquireFrom(tree, 'vid=303A'), { reason: 'not-found' });
+});
+
+test('expired leases are taken over and dropped from the list', () => {
+    const dir = leaseDir();
+    const manager = new LeaseManager({ dir });
+    const lease = manager.acquireFrom(tree, 'com=COM9', { ttl: 60000 });
+    assert.equal(manager.list().length, 1);
+
+    // Let the lease run out as if its worker hung
+    const file = join(dir, readdirSync(dir)[0]);
+    writeFileSync(file, JSON.stringify({ ...lease.record, expiresAt: new Date(Date.now() - 1000).toISOString() }));
+    assert.equal(manager.list().length, 0);
+
+    const next = manager.acquireFrom(tree, 'com=COM9');
+    assert.throws(() => lease.renew(), { reason: 'lost' });
+    next.renew(1000);
+    next.release();
+});
+
+test('acquire waits for a lease to be released', async () => {
+    const dir = leaseDir();
+    const manager = new LeaseManager({ dir, source: () => tree });
+    const held = manager.acquireFrom(tree, 'com=COM12');
+    setTimeout(() => held.release(), 20);
+    const lease = await manager.acquire('com=COM12', { wait: 2000, pollInterval: 5 });
+    assert.equal(lease.device.portChain, '1-3-2');
+    lease.release();
+});
+
+test('a bridge and its channels cannot be leased by different workers', () => {
+    const dir = leaseDir();
+    const channel = new LeaseManager({ dir }).acquireFrom(tree, 'com=COM26', { owner: 'worker-1' });
+    assert.throws(() => new LeaseManager({ dir }).acquireFrom(tree, 'chain=1-3-1', { owner: 'worker-2' }), (error: unknown) => {
+        assert.ok(error instanceof LeaseError);
+        assert.equal(error.reason, 'busy');
+        assert.deepEqual(error.holders.map(h => h.owner), ['worker-1']);
+        return true;
+    });
+    channel.release();
+
+    const bridge = new LeaseManager({ dir }).acquireFrom(tree, 'chain=1-3-1');
+    assert.equal(bridge.comPort!.port, 'COM26');
+    assert.throws(() => new LeaseManager({ dir }).acquireFrom(tree, 'com=COM27'), { reason: 'busy' });
+    bridge.release();
+    new LeaseManager({ dir }).acquireFrom(tree, 'com=COM27').release();
+});
+
+test('lease managers share one exit listener', () => {
+    const dir = leaseDir();
+    new LeaseManager({ dir }).acquireFrom(tree, 'com=COM9').release();
+    const listeners = process.listenerCount('exit');
+    for (let i = 0; i < 20; i++) new LeaseManager({ dir }).acquireFrom(tree, 'com=COM9').release();
+    assert.equal(process.listenerCount('exit'), listeners);
+});
+
+test('an unusable lock directory is a USBTreeError', () => {
+    const file = join(leaseDir(), 'not-a-directory');
+    writeFileSync(file, '');
+    assert.throws(() => new LeaseManager({ dir: file }).acquireFrom(tree, 'com=COM9'), (error: unknown) => {
+        assert.ok(error instanceof USBTreeError);
+        assert.match(error.message, /Cannot write leases in/);
+        return true;
+    });
+});
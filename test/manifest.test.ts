@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseManifest, validateTopology, formatManifestReport, ManifestError, TopologyManifest } from '../src/usb-manifest';
+import { fixtureTree } from './helpers';
+
+const tree = fixtureTree('station-script.txt');
+
+const RIG: TopologyManifest = {
+    name: 'rig 3',
+    devices: [
+        { chain: '1-3-1', vid: '0403', pid: '6010', serial: 'FT4*', channels: ['JTAG', 'Serial'] },
+        { chain: '1-3-2', vid: '0483', pid: '5740' },
+        { chain: '1-3-4', vid: '1A86', pid: '55D2', channels: 2 },
+        { chain: '1-4', vid: '10C4', pid: 'EA60', label: 'power analyzer' },
+        { chain: '1-6', vid: '046D' },
+    ],
+};
+
+test('the station matches its manifest', () => {
+    const report = validateTopology(tree, parseManifest(RIG));
+    assert.deepEqual(report.issues, []);
+    assert.equal(report.ok, true);
+    assert.match(formatManifestReport(report), /RESULT: OK/);
+});
+
+test('missing, unexpected and missing-channel issues', () => {
+    const report = validateTopology(tree, parseManifest({
+        devices: [
+            { chain: '1-3-1', vid: '0403', channels: ['JTAG', 'SWD'] },
+            { chain: '1-3-2', vid: '0483' },
+            { chain: '1-3-4', vid: '1A86' },
+            { chain: '1-5', label: 'scope' },
+            { chain: '1-7', optional: true },
+        ],
+    }));
+    assert.deepEqual(report.issues.map(i => [i.kind, i.chain]), [
+        ['missing-channel', '1-3-1'],
+        ['unexpected', '1-4'],
+        ['missing', '1-5'],
+        ['unexpected', '1-6'],
+    ]);
+});
+
+test('a device on the wrong port is reported once as wrong-port', () => {
+    const report = validateTopology(tree, parseManifest({
+        allowUnexpected: true,
+        devices: [{ chain: '1-5', vid: '10C4', pid: 'EA60' }],
+    }));
+    assert.deepEqual(report.issues.map(i => [i.kind, i.chain, i.actual?.portChain]), [['wrong-port', '1-5', '1-4']]);
+});
+
+test('a different device on an expected port is an id-mismatch', () => {
+    const report = validateTopology(tree, parseManifest({ allowUnexpected: true, devices: [{ chain: '1-4', vid: '303A' }] }));
+    assert.deepEqual(report.issues.map(i => i.kind), ['id-mismatch']);
+});
+
+test('the device sitting on the port of a relocated device is reported too', () => {
+    // The CP210x is expected on 1-6, where the webcam is plugged in instead
+    const report = validateTopology(tree, parseManifest({
+        allowUnexpected: true,
+        devices: [{ chain: '1-6', vid: '10C4', pid: 'EA60' }],
+    }));
+    assert.deepEqual(report.issues.map(i => [i.kind, i.chain, i.actual?.portChain]), [
+        ['wrong-port', '1-6', '1-4'],
+        ['id-mismatch', '1-6', '1-6'],
+    ]);
+});
+
+test('parseManifest rejects malformed entries', () => {
+    assert.throws(() => parseManifest({}), ManifestError);
+    assert.throws(() => parseManifest({ devices: [{ chain: '1-x' }] }), /devices\[0\]: "chain"/);
+    assert.throws(() => parseManifest({ devices: [{ chain: '1-2', vid: 403 }] }), /"vid" must be a string/);
+    assert.throws(() => parseManifest({ devices: [{ chain: '1-2' }, { chain: '1-2' }] }), /listed twice/);
+    assert.throws(() => parseManifest({ devices: [{ chain: '1-2', channels: ['A', 2] }] }), /"channels" must be/);
+});
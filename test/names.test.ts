@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { configureDeviceNames, lookupProductName, lookupInterfaceName, USBTreeError } from '../src/index';
+
+const dir = mkdtempSync(join(tmpdir(), 'usb-tree-names-'));
+const usbIds = join(dir, 'usb.ids');
+writeFileSync(usbIds, '0403  Future Technology Devices International, Ltd\n\t6010  FT2232C/D/H Dual UART/FIFO IC\n\t\t01  Channel B\nC 00  (Defined at Interface level)\n', 'latin1');
+const overrides = join(dir, 'lab-names.json');
+writeFileSync(overrides, JSON.stringify({ products: { '0403:6010': 'Rig JTAG Adapter' } }));
+
+test('overrides win over usb.ids', () => {
+    configureDeviceNames({ usbIdsPath: usbIds, overrides: [overrides] });
+    assert.equal(lookupProductName('0403', '6010'), 'Rig JTAG Adapter');
+    assert.equal(lookupInterfaceName('0403', '6010', 1), 'Channel B');
+    configureDeviceNames({});
+    assert.equal(lookupProductName('0403', '6010'), undefined);
+});
+
+test('a missing file fails in configureDeviceNames, not in a later lookup', () => {
+    assert.throws(() => configureDeviceNames({ usbIdsPath: join(dir, 'missing.ids') }), USBTreeError);
+    assert.equal(lookupProductName('0403', '6010'), undefined);
+    configureDeviceNames({});
+});
+
+test('files are not parsed before the first lookup', () => {
+    const lazy = join(dir, 'lazy-names.json');
+    writeFileSync(lazy, 'not json yet');
+    configureDeviceNames({ overrides: [lazy] });
+
+    writeFileSync(lazy, JSON.stringify({ products: { '0403:6010': 'Written After Configure' } }));
+    assert.equal(lookupProductName('0403', '6010'), 'Written After Configure');
+    configureDeviceNames({});
+});
+
+test('a file that cannot be parsed fails on the first lookup only', () => {
+    const broken = join(dir, 'broken-names.json');
+    writeFileSync(broken, '{ "products": ');
+    configureDeviceNames({ overrides: [broken] });
+    assert.throws(() => lookupProductName('0403', '6010'), /Cannot load device name overrides/);
+    assert.equal(lookupProductName('0403', '6010'), undefined);
+    configureDeviceNames({});
+});
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    USBTree, ParseError, parsePnputilOutput, parsePnputilOutputWithDiagnostics, pnputilPhantomsToTreeData, getUSBTreeDataReplay,
+} from '../src/index';
+import { fixture, fixtureTree, recordingLogger } from './helpers';
+
+// The de/ja captures are the English station capture with its labels translated, so they must build the same tree
+function topology(tree: USBTree): string[] {
+    return [...tree.allDevices.values()]
+        .map(d => `${d.portChain} ${d.instancePath} <- ${d.parentPath} ${d.comPorts.map(c => c.port).join(',')}`)
+        .sort();
+}
+
+const USAGE_TEXT = 'Microsoft PnP Utility\r\n\r\nUsage:\r\n------\r\npnputil [/add-driver <...> | /enum-drivers ...]\r\n';
+
+test('English labels are recognized', () => {
+    const { devices, diagnostics } = parsePnputilOutputWithDiagnostics(fixture('pnputil-en.txt'));
+    assert.equal(devices.length, 11);
+    assert.deepEqual(diagnostics, { locale: 'en', structural: false, unknownLabels: [] });
+});
+
+// Dutch has no label table, so it stands in for any language the parser does not know
+const DUTCH_LABELS: Record<string, string> = {
+    'Instance ID': 'Exemplaar-id',
+    'Device Description': 'Apparaatbeschrijving',
+    'Class Name': 'Klassenaam',
+    'Class GUID': 'Klasse-GUID',
+    'Manufacturer Name': 'Naam fabrikant',
+    'Status': 'Toestand',
+    'Parent': 'Bovenliggend',
+    'Children': 'Onderliggend',
+    'Device Properties': 'Apparaateigenschappen',
+};
+
+function unknownLanguageCapture(): string {
+    return fixture('pnputil-en.txt')
+        .replace(/^([^\s:][^:\r\n]*?):/gm, (match, label: string) => DUTCH_LABELS[label] ? `${DUTCH_LABELS[label]}:` : match);
+}
+
+for (const locale of ['de', 'ja']) {
+    test(`${locale} labels are recognized`, () => {
+        const { diagnostics } = parsePnputilOutputWithDiagnostics(fixture(`pnputil-${locale}.txt`));
+        assert.equal(diagnostics.locale, locale);
+        assert.equal(diagnostics.structural, false);
+
+        const logger = recordingLogger();
+        const tree = fixtureTree(`pnputil-${locale}.txt`, { logger });
+        assert.deepEqual(topology(tree), topology(fixtureTree('pnputil-en.txt')));
+        assert.deepEqual(logger.warnings, []);
+    });
+}
+
+test('an unknown language is parsed by structure, parents included', () => {
+    const { diagnostics } = parsePnputilOutputWithDiagnostics(unknownLanguageCapture());
+    assert.equal(diagnostics.locale, null);
+    assert.equal(diagnostics.structural, true);
+    assert.ok(diagnostics.unknownLabels.includes('Exemplaar-id'));
+
+    const logger = recordingLogger();
+    const tree = fixtureTree('pnputil-en.txt', { replay: unknownLanguageCapture(), logger });
+    assert.deepEqual(topology(tree), topology(fixtureTree('pnputil-en.txt')));
+    assert.equal(logger.warnings.length, 1);
+    assert.match(logger.warnings[0], /not recognized, parsed by structure/);
+});
+
+test('the unknown-language warning is given once per logger', () => {
+    const logger = recordingLogger();
+    fixtureTree('pnputil-en.txt', { replay: unknownLanguageCapture(), logger });
+    fixtureTree('pnputil-en.txt', { replay: unknownLanguageCapture(), logger });
+    assert.equal(logger.warnings.length, 1);
+});
+
+test('a replayed capture without USB devices is a ParseError, as it is live', () => {
+    assert.throws(() => getUSBTreeDataReplay(USAGE_TEXT, 'pnputil', {}, recordingLogger()), (error: unknown) => {
+        assert.ok(error instanceof ParseError);
+        assert.equal(error.backend, 'replay');
+        assert.equal(error.line, 'Microsoft PnP Utility');
+        return true;
+    });
+    assert.throws(() => fixtureTree('pnputil-en.txt', { replay: USAGE_TEXT }), ParseError);
+});
+
+test('remembered devices are listed whatever their last problem code', () => {
+    const capture = [
+        'Instance ID:                USB\\VID_10C4&PID_EA60\\0001',
+        'Device Description:         CP2102 USB to UART Bridge Controller',
+        'Class Name:                 USB',
+        'Status:                     Disconnected',
+        'Problem Code:               43 (0x2B)',
+        'Device Properties:',
+        '    DEVPKEY_Device_LocationInfo [String]:',
+        '        Port_#0004.Hub_#0001',
+        '    DEVPKEY_Device_LastRemovalDate [FileTime]:',
+        '        2026-10-01 08:30:00',
+        '',
+    ].join('\r\n');
+    const { devices } = pnputilPhantomsToTreeData(parsePnputilOutput(capture));
+    const device = devices.get('USB\\VID_10C4&PID_EA60\\0001')!;
+    assert.equal(device.present, false);
+    assert.equal(device.status, undefined);
+    assert.ok(device.lastRemoval);
+});
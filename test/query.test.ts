@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { query, parseSelector, formatSelector, matchPortChain, pruneUSBTree, SelectorError } from '../src/index';
+import { fixtureTree } from './helpers';
+
+const tree = fixtureTree('station-script.txt');
+
+function chains(selector: string): string[] {
+    return query(tree, selector).map(dev => dev.portChain);
+}
+
+test('port chain patterns', () => {
+    assert.equal(matchPortChain('1-3-1-2', '1-*-1-2'), true);
+    assert.equal(matchPortChain('1-3-1-2', '1-**'), true);
+    assert.equal(matchPortChain('1-3-4', '1-3-2..4'), true);
+    assert.equal(matchPortChain('1-3-4', '1-3-1,2'), false);
+    assert.equal(matchPortChain('', '**'), false);
+});
+
+test('selectors match by id, chain, serial, name and COM ports', () => {
+    assert.deepEqual(chains('vid=0403 pid=6010'), ['1-3-1', '1-3-1-1', '1-3-1-2']);
+    assert.deepEqual(chains('id=10c4:ea60'), ['1-4']);
+    assert.deepEqual(chains('chain=1-3-*'), ['1-3-1', '1-3-2', '1-3-4']);
+    assert.deepEqual(chains('serial=3678*'), ['1-3-2']);
+    assert.deepEqual(chains('name="BRIO*"'), ['1-6']);
+    assert.deepEqual(chains('com=COM3*'), ['1-3-4-1', '1-3-4-2']);
+    assert.deepEqual(chains('hub=true'), ['1-3']);
+    assert.deepEqual(chains('role=Serial'), ['1-3-1-2']);
+    assert.deepEqual(chains('vid=1A86 channel=B'), ['1-3-4-2']);
+    assert.deepEqual(chains('vid=0403 hasCom=true'), ['1-3-1', '1-3-1-1', '1-3-1-2']);
+    assert.deepEqual(chains('vid=0403 hasCom=false'), []);
+});
+
+test('parseSelector rejects unknown keys and bad values', () => {
+    assert.throws(() => parseSelector('color=red'), SelectorError);
+    assert.throws(() => parseSelector('hub=maybe'), SelectorError);
+    assert.throws(() => parseSelector('vid'), SelectorError);
+    assert.throws(() => parseSelector('id=0403'), SelectorError);
+});
+
+test('formatSelector output parses back to the same selector', () => {
+    const selector = parseSelector('vid=0403 chain=1-** hasCom=true channel=B');
+    assert.deepEqual(parseSelector(formatSelector(selector)), selector);
+});
+
+test('pruneUSBTree keeps matches and their ancestors only', () => {
+    const pruned = pruneUSBTree(tree, 'serial=3678*');
+    assert.deepEqual([...pruned.allDevices.values()].map(d => d.portChain).sort(), ['1', '1-3', '1-3-2']);
+    assert.deepEqual([...pruned.comPortMap.keys()], ['COM12']);
+    assert.equal(tree.allDevices.size, 11);
+});
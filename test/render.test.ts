@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    USBTree, USBDevice, getComPortList, getDeviceByPortChain, renderTree, renderTable, renderMarkdownTable, renderCsv, renderHtmlReport,
+} from '../src/index';
+import { fixtureTree } from './helpers';
+
+// A fresh station tree whose STM32 carries a name with every character the formats have to escape
+function stationTree(): { tree: USBTree; awkward: USBDevice } {
+    const tree = fixtureTree('station-script.txt');
+    const awkward = getDeviceByPortChain(tree, '1-3-2')!;
+    awkward.name = 'Probe "A" | <rev 2>, & co';
+    return { tree, awkward };
+}
+
+test('renderTree draws the station in ASCII and Unicode', () => {
+    const tree = fixtureTree('station-script.txt');
+    assert.deepEqual(renderTree(tree).split('\n').slice(0, 8), [
+        'USB Device Tree',
+        'Connected Devices: 11',
+        '',
+        '\\---USB Root Hub (1)',
+        '    |--[1-3]: USB 2.0 Hub (05e3:0610)',
+        '    |   |--[1-3-1]: FT2232H Dual Serial (0403:6010) [S/N: FT4ABCD]',
+        '    |   |   |--[1-3-1-1]: COM26 (JTAG) (0403:6010) [S/N: FT4ABCD] - COM26 (JTAG)',
+        '    |   |   \\--[1-3-1-2]: COM27 (Serial) (0403:6010) [S/N: FT4ABCD] - COM27 (Serial)',
+    ]);
+    const unicode = renderTree(tree, { style: 'unicode' }).split('\n');
+    assert.equal(unicode[3], '└───USB Root Hub (1)');
+    assert.equal(unicode[13], '    └──[1-6]: BRIO Webcam (046d:085e)');
+});
+
+test('tables render only the selected columns, in order', () => {
+    const devices = getComPortList(fixtureTree('station-script.txt'));
+    assert.deepEqual(renderMarkdownTable(devices, { columns: ['chain', 'com'] }).split('\n').slice(0, 4), [
+        '| Port Chain | COM Ports |',
+        '| --- | --- |',
+        '| 1-4 | COM9 |',
+        '| 1-3-2 | COM12 |',
+    ]);
+    assert.deepEqual(renderCsv(devices, { columns: ['com', 'vid'] }).split('\n').slice(0, 2), ['COM Ports,VID', 'COM9,10C4']);
+    assert.deepEqual(renderTable(devices, { columns: ['chain', 'serial'] }).split('\n').slice(0, 3), [
+        'Port Chain  | Serial',
+        '------------------------------',
+        '1-4         | 0001',
+    ]);
+});
+
+test('Markdown cells escape pipes and fill empty values', () => {
+    const { awkward } = stationTree();
+    assert.equal(renderMarkdownTable([awkward], { columns: ['name', 'kernelName'] }).split('\n')[2],
+        '| Probe "A" \\| <rev 2>, & co | \\Device\\USBSER000 |');
+    const hub = getDeviceByPortChain(stationTree().tree, '1-3')!;
+    assert.equal(renderMarkdownTable([hub], { columns: ['chain', 'com'] }).split('\n')[2], '| 1-3 | - |');
+});
+
+test('CSV quotes fields with commas and doubles embedded quotes', () => {
+    const { awkward } = stationTree();
+    assert.deepEqual(renderCsv([awkward], { columns: ['name', 'com', 'hub'] }).split('\n'), [
+        'Name,COM Ports,Hub',
+        '"Probe ""A"" | <rev 2>, & co",COM12,no',
+    ]);
+});
+
+test('the HTML report escapes device names and is self-contained', () => {
+    const { tree } = stationTree();
+    const html = renderHtmlReport(tree, { title: 'Station <A>' });
+    assert.match(html, /<title>Station &lt;A&gt;<\/title>/);
+    assert.ok(html.includes('<td>Probe &quot;A&quot; | &lt;rev 2&gt;, &amp; co</td>'));
+    assert.ok(html.includes('[1-3-2]: Probe &quot;A&quot; | &lt;rev 2&gt;, &amp; co'));
+    assert.ok(!html.includes('<rev 2>'));
+    assert.doesNotMatch(html, /<(script|link)\b/);
+    assert.ok(html.includes('<tr class="hub"><td>05E3:0610</td>'));
+});
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync, mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    USBTree, buildUSBTree, buildUSBTreeAsync, getDeviceByPortChain, getComPortList, createReplayRunner,
+    detectReplayFormat, readReplayFile, getUSBTreeDataReplay, BackendFailedError,
+} from '../src/index';
+import { fixture, fixtureTree, recordingLogger } from './helpers';
+
+function summary(tree: USBTree): string[] {
+    return getComPortList(tree).map(dev => `${dev.comPorts[0].port}@${dev.portChain}`).sort();
+}
+
+const STATION_PORTS = ['COM12@1-3-2', 'COM26@1-3-1-1', 'COM27@1-3-1-2', 'COM30@1-3-4-1', 'COM31@1-3-4-2', 'COM9@1-4'];
+
+test('script capture builds the station tree', () => {
+    const tree = fixtureTree('station-script.txt');
+    assert.equal(tree.backend, 'replay');
+    assert.equal(tree.rootHubs.length, 1);
+    assert.deepEqual(summary(tree), STATION_PORTS);
+
+    const ftdi = getDeviceByPortChain(tree, '1-3-1')!;
+    assert.equal(ftdi.serialNumber, 'FT4ABCD');
+    assert.deepEqual(ftdi.children.map(c => c.comPorts[0].role), ['JTAG', 'Serial']);
+    assert.equal(getDeviceByPortChain(tree, '1-3-1-2')!.kernelName, '\\Device\\VCP1');
+    assert.equal(getDeviceByPortChain(tree, '1-6')!.comPorts.length, 0);
+});
+
+test('pnputil capture builds the same tree as the script capture', () => {
+    const tree = fixtureTree('pnputil-en.txt');
+    assert.deepEqual(summary(tree), STATION_PORTS);
+    assert.deepEqual(
+        [...tree.allDevices.values()].map(d => d.portChain).sort(),
+        [...fixtureTree('station-script.txt').allDevices.values()].map(d => d.portChain).sort());
+    assert.equal(getDeviceByPortChain(tree, '1-3')!.isHub, true);
+});
+
+test('detectReplayFormat tells the capture kinds apart', () => {
+    assert.equal(detectReplayFormat(fixture('station-script.txt')), 'script');
+    assert.equal(detectReplayFormat(fixture('pnputil-en.txt')), 'pnputil');
+    assert.equal(getUSBTreeDataReplay(fixture('pnputil-en.txt')).backend, 'replay');
+});
+
+test('readReplayFile decodes UTF-16 LE captures written by Out-File', () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'usb-tree-test-')), 'capture.txt');
+    writeFileSync(file, Buffer.concat([Buffer.from([0xFF, 0xFE]), Buffer.from(fixture('station-script.txt'), 'utf16le')]));
+    assert.equal(readReplayFile(file), fixture('station-script.txt'));
+});
+
+test('createReplayRunner drives the live pnputil backend', () => {
+    const tree = buildUSBTree({ runner: createReplayRunner(fixture('pnputil-en.txt')), logger: recordingLogger() });
+    assert.equal(tree.backend, 'pnputil');
+    assert.deepEqual(summary(tree), STATION_PORTS);
+});
+
+test('createReplayRunner drives the PowerShell backend', async () => {
+    const runner = createReplayRunner(fixture('station-script.txt'));
+    const tree = buildUSBTree({ runner, useSlowPath: true });
+    assert.equal(tree.backend, 'powershell');
+    assert.deepEqual(summary(tree), STATION_PORTS);
+
+    const asyncTree = await buildUSBTreeAsync({ runner, useSlowPath: true });
+    assert.deepEqual(summary(asyncTree), STATION_PORTS);
+});
+
+test('a failing pnputil backend falls back to PowerShell and records both attempts', () => {
+    const logger = recordingLogger();
+    const runner = {
+        ...createReplayRunner(fixture('station-script.txt')),
+        run: () => { throw new Error('pnputil is not available'); },
+    };
+    const tree = buildUSBTree({ runner, logger });
+    assert.equal(tree.backend, 'powershell');
+    assert.deepEqual(tree.attempts!.map(a => [a.backend, a.ok]), [['pnputil', false], ['powershell', true]]);
+    assert.equal(logger.warnings.length, 1);
+});
+
+test('a runner that throws a non-object still gives a BackendFailedError', async () => {
+    for (const thrown of [null, undefined, 'powershell crashed']) {
+        const runner = { runPowerShell: () => { throw thrown; }, runPowerShellAsync: async () => { throw thrown; } };
+        assert.throws(() => buildUSBTree({ runner, useSlowPath: true }), (error: unknown) => {
+            assert.ok(error instanceof BackendFailedError);
+            assert.equal(error.exitCode, null);
+            assert.equal(error.message, `powershell enumeration failed: ${String(thrown)}`);
+            return true;
+        });
+        await assert.rejects(buildUSBTreeAsync({ runner, useSlowPath: true }), BackendFailedError);
+    }
+});
+
+test('truncated script lines are skipped with a warning', () => {
+    const logger = recordingLogger();
+    const capture = fixture('station-script.txt') + 'DEVICE|USB\\VID_303A&PID_1001\\7C:DF\nCOMPORT|COM40\n';
+    const data = getUSBTreeDataReplay(capture, 'script', {}, logger);
+    assert.equal(data.devices.size, getUSBTreeDataReplay(fixture('station-script.txt')).devices.size);
+    assert.equal(data.comPorts.has('COM40'), false);
+    assert.deepEqual(logger.warnings.map(w => w.replace(/ line \d+/, '')), [
+        'Skipping malformed DEVICE: expected 9 fields, got 2',
+        'Skipping malformed COMPORT: expected 5 fields, got 2',
+    ]);
+});
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { USBTreeServer } from '../src/index';
+import { fixture } from './helpers';
+
+async function get(base: string, path: string): Promise<{ status: number; body: any }> {
+    const http = await import('http');
+    return new Promise((resolve, reject) => {
+        http.get(base + path, res => {
+            let text = '';
+            res.on('data', chunk => text += chunk);
+            res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(text) }));
+        }).on('error', reject);
+    });
+}
+
+test('REST endpoints answer from the cached tree', async () => {
+    const server = new USBTreeServer({ port: 0, refreshInterval: 60000, watcher: { buildOptions: { replay: fixture('station-script.txt') } } });
+    const base = await server.start();
+    try {
+        const devices = await get(base, '/devices');
+        assert.equal(devices.status, 200);
+        assert.equal(devices.body.length, 10);
+
+        assert.equal((await get(base, '/devices/1-3-2')).body.serialNumber, '3678375A3034');
+        assert.equal((await get(base, '/com/com27')).body.portChain, '1-3-1-2');
+        assert.deepEqual((await get(base, '/query?vid=1A86&hasCom=true')).body.map((d: any) => d.portChain), ['1-3-4', '1-3-4-1', '1-3-4-2']);
+        assert.equal((await get(base, '/tree')).body.schema, 'usb-tree-win/snapshot');
+        assert.equal((await get(base, '/health')).body.ok, true);
+
+        assert.equal((await get(base, '/devices/9-9')).status, 404);
+        assert.equal((await get(base, '/query?color=red')).status, 400);
+        assert.equal((await get(base, '/query')).status, 400);
+    } finally {
+        await server.stop();
+    }
+});
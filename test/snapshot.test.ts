@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { serializeUSBTree, deserializeUSBTree } from '../src/usb-tree-snapshot';
+import { getDeviceByPortChain, USBTreeError } from '../src/index';
+import { diffUSBTrees } from '../src/usb-tree-diff';
+import { fixtureTree } from './helpers';
+
+test('a snapshot round-trips through JSON', () => {
+    const tree = fixtureTree('station-script.txt');
+    const restored = deserializeUSBTree(JSON.stringify(serializeUSBTree(tree)));
+
+    assert.equal(diffUSBTrees(tree, restored).identical, true);
+    assert.equal(restored.backend, 'replay');
+    // comPortMap entries point at the same objects as the devices' comPorts
+    const entry = restored.comPortMap.get('COM27')!;
+    assert.equal(entry.device, getDeviceByPortChain(restored, '1-3-1-2'));
+    assert.equal(entry.comInfo, entry.device.comPorts[0]);
+});
+
+test('snapshots of another schema or version are rejected', () => {
+    const snapshot = serializeUSBTree(fixtureTree('station-script.txt'));
+    assert.throws(() => deserializeUSBTree({ ...snapshot, schema: 'other' as never }), USBTreeError);
+    assert.throws(() => deserializeUSBTree({ ...snapshot, version: 99 }), /version 99/);
+    assert.throws(() => deserializeUSBTree({ ...snapshot, rootHubs: ['missing'] }), /unknown device "missing"/);
+    assert.throws(() => deserializeUSBTree('{"schema": "usb-tree-win/snap'), /not valid JSON/);
+});
@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, mkdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { USBTree, buildUSBTree, getUSBTreeDataSysfs, BackendFailedError } from '../src/index';
+
+// Fake /sys/bus/usb/devices: a hub with an FT2232H (two ttyUSB interfaces) and an STM32 CDC-ACM device behind it,
+// and a second bus with a CP2102 directly on the root hub
+const root = mkdtempSync(join(tmpdir(), 'usb-tree-sysfs-'));
+
+function sysfsEntry(name: string, attributes: Record<string, string>, nodes: string[] = []): void {
+    const dir = join(root, name);
+    mkdirSync(dir, { recursive: true });
+    for (const [attribute, value] of Object.entries(attributes)) writeFileSync(join(dir, attribute), `${value}\n`);
+    for (const node of nodes) mkdirSync(join(dir, node), { recursive: true });
+}
+
+sysfsEntry('usb1', { version: ' 2.00' });
+sysfsEntry('usb2', { version: ' 3.10' });
+sysfsEntry('1-2', { idVendor: '05e3', idProduct: '0610', bDeviceClass: '09', product: 'USB2.1 Hub' });
+sysfsEntry('1-2:1.0', { bInterfaceNumber: '00' });
+sysfsEntry('1-2.1', { idVendor: '0403', idProduct: '6010', bDeviceClass: '00', product: 'Dual RS232-HS', serial: 'FT4ABCD' });
+sysfsEntry('1-2.1:1.0', { bInterfaceNumber: '00' }, ['ttyUSB0']);
+sysfsEntry('1-2.1:1.1', { bInterfaceNumber: '01' }, ['ttyUSB1']);
+sysfsEntry('1-2.3', { idVendor: '0483', idProduct: '5740', bDeviceClass: '02', product: 'STM32 Virtual ComPort', serial: '3678375A3034' });
+sysfsEntry('1-2.3:1.0', { bInterfaceNumber: '00' }, ['tty/ttyACM0']);
+sysfsEntry('1-2.3:1.1', { bInterfaceNumber: '01' });
+sysfsEntry('2-4', { idVendor: '10c4', idProduct: 'ea60', bDeviceClass: '00', product: 'CP2102 USB to UART Bridge Controller', serial: '0001' });
+sysfsEntry('2-4:1.0', { bInterfaceNumber: '00' }, ['ttyUSB2']);
+
+function byChain(tree: USBTree, chain: string) {
+    const dev = [...tree.allDevices.values()].find(d => d.portChain === chain);
+    assert.ok(dev, `no device at ${chain}`);
+    return dev;
+}
+
+test('sysfs entries become a tree with bus-numbered root hubs and nested port chains', () => {
+    const tree = buildUSBTree({ sysfsRoot: root });
+    assert.equal(tree.backend, 'sysfs');
+    assert.deepEqual([...tree.allDevices.values()].map(d => d.portChain).sort(), [
+        '1', '1-2', '1-2-1', '1-2-1-1', '1-2-1-2', '1-2-3', '2', '2-4',
+    ]);
+
+    assert.equal(byChain(tree, '1').isHub, true);
+    assert.equal(byChain(tree, '2').pid, 'HUB30');
+    assert.equal(byChain(tree, '1-2').isHub, true);
+    assert.equal(byChain(tree, '1-2-3').isHub, false);
+    assert.equal(byChain(tree, '1-2-1').parentPath, '1-2');
+});
+
+test('sysfs reports the real serial descriptor', () => {
+    const tree = buildUSBTree({ sysfsRoot: root });
+    assert.equal(byChain(tree, '1-2-1').serialNumber, 'FT4ABCD');
+    assert.equal(byChain(tree, '1-2-3').serialNumber, '3678375A3034');
+    assert.equal(byChain(tree, '1-2').serialNumber, '');
+});
+
+test('ttyUSB interfaces of an FT2232H become JTAG and Serial channel children', () => {
+    const tree = buildUSBTree({ sysfsRoot: root });
+    assert.deepEqual(byChain(tree, '1-2-1').children.map(c => c.portChain), ['1-2-1-1', '1-2-1-2']);
+    assert.deepEqual(byChain(tree, '1-2-1-1').comPorts.map(c => [c.port, c.role]), [['/dev/ttyUSB0', 'JTAG']]);
+    assert.deepEqual(byChain(tree, '1-2-1-2').comPorts.map(c => [c.port, c.role]), [['/dev/ttyUSB1', 'Serial']]);
+    assert.equal(tree.comPortMap.get('/dev/ttyUSB1')?.device.portChain, '1-2-1-2');
+});
+
+test('ttyACM nodes below a tty/ directory belong to their device', () => {
+    const tree = buildUSBTree({ sysfsRoot: root });
+    assert.deepEqual(byChain(tree, '1-2-3').comPorts.map(c => c.port), ['/dev/ttyACM0']);
+    assert.deepEqual(byChain(tree, '2-4').comPorts.map(c => c.port), ['/dev/ttyUSB2']);
+});
+
+test('a missing sysfs root is a BackendFailedError', () => {
+    assert.throws(() => getUSBTreeDataSysfs(join(root, 'missing')), BackendFailedError);
+    assert.throws(() => buildUSBTree({ sysfsRoot: join(root, 'missing') }), (error: unknown) => {
+        assert.ok(error instanceof BackendFailedError);
+        assert.equal(error.backend, 'sysfs');
+        assert.deepEqual(error.attempts!.map(a => [a.backend, a.ok]), [['sysfs', false]]);
+        return true;
+    });
+});
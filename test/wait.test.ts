@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { USBTree, buildUSBTree, waitForDevice, waitForComPort, waitForRemoval, WaitTimeoutError } from '../src/index';
+import { fixture } from './helpers';
+
+const EMPTY = fixture('station-script.txt').split('\n').filter(line => /ROOT_HUB30\\[^|]*\|ROOT/.test(line)).join('\n');
+
+// Source that returns the given trees in order, then keeps returning the last one
+function sequence(...captures: string[]): () => USBTree {
+    let index = 0;
+    return () => buildUSBTree({ replay: captures[Math.min(index++, captures.length - 1)] });
+}
+
+test('waitForDevice resolves once the device enumerates', async () => {
+    const source = sequence(EMPTY, EMPTY, fixture('station-script.txt'));
+    const dev = await waitForDevice('vid=0483 pid=5740', { source, pollInterval: 1 });
+    assert.equal(dev.portChain, '1-3-2');
+});
+
+test('waitForComPort resolves with the channel child holding the port', async () => {
+    const dev = await waitForComPort('vid=0403 role=Serial', { source: sequence(fixture('station-script.txt')), pollInterval: 1 });
+    assert.equal(dev.comPorts[0].port, 'COM27');
+});
+
+test('waitForRemoval resolves once nothing matches', async () => {
+    await waitForRemoval('vid=10C4', { source: sequence(fixture('station-script.txt'), EMPTY), pollInterval: 1 });
+});
+
+test('a timeout lists the devices seen instead', async () => {
+    await assert.rejects(
+        waitForDevice('vid=303A', { source: sequence(fixture('station-script.txt')), timeout: 30, pollInterval: 5 }),
+        (error: unknown) => {
+            assert.ok(error instanceof WaitTimeoutError);
+            assert.equal(error.selector, 'vid=303A');
+            assert.ok(error.seen.some(line => line.includes('COM9')));
+            return true;
+        });
+});
+
+test('an aborted wait rejects with an AbortError', async () => {
+    const controller = new AbortController();
+    const wait = waitForDevice('vid=303A', { source: sequence(EMPTY), pollInterval: 5, signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+    await assert.rejects(wait, { name: 'AbortError' });
+});
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { USBTree, USBTreeWatcher, buildUSBTree } from '../src/index';
+import { fixture } from './helpers';
+
+const STATION = fixture('station-script.txt');
+const UNPLUGGED = STATION.split('\n').filter(line => !line.includes('VID_10C4')).join('\n');
+
+test('detaching a device emits detached and comPortRemoved', async () => {
+    const trees = [STATION, UNPLUGGED].map(replay => buildUSBTree({ replay }));
+    const watcher = new USBTreeWatcher({ debounce: 0, source: () => trees.shift() ?? buildUSBTree({ replay: UNPLUGGED }) });
+    const seen: string[] = [];
+    watcher.on('detached', e => seen.push(`detached ${e.portChain}`));
+    watcher.on('comPortRemoved', e => seen.push(`comPortRemoved ${e.comInfo.port}`));
+
+    await watcher.refresh();
+    await watcher.refresh();
+    assert.deepEqual(seen, ['detached 1-4', 'comPortRemoved COM9']);
+});
+
+test('overlapping refreshes share one enumeration', async () => {
+    let calls = 0;
+    const watcher = new USBTreeWatcher({
+        source: async () => {
+            calls++;
+            await new Promise(resolve => setTimeout(resolve, 10));
+            return buildUSBTree({ replay: STATION });
+        },
+    });
+    await Promise.all([watcher.refresh(), watcher.refresh()]);
+    assert.equal(calls, 1);
+});
+
+test('no events are emitted after stop()', async () => {
+    let release: (tree: USBTree) => void = () => undefined;
+    const watcher = new USBTreeWatcher({ emitInitial: true, source: () => new Promise<USBTree>(resolve => release = resolve) });
+    let events = 0;
+    watcher.on('attached', () => events++);
+    watcher.on('refresh', () => events++);
+
+    const pending = watcher.refresh();
+    watcher.stop();
+    release(buildUSBTree({ replay: STATION }));
+    await pending;
+    assert.equal(events, 0);
+    assert.equal(watcher.tree, null);
+});
+
+test('a change gone again within the debounce window emits nothing', async () => {
+    // Initial snapshot, the flicker, then the station back when the debounce re-enumerates
+    const replays = [STATION, UNPLUGGED, STATION];
+    let calls = 0;
+    const watcher = new USBTreeWatcher({ debounce: 20, source: () => buildUSBTree({ replay: replays[calls++] ?? STATION }) });
+    const seen: string[] = [];
+    for (const event of ['attached', 'detached', 'comPortAdded', 'comPortRemoved'] as const) {
+        watcher.on(event, () => seen.push(event));
+    }
+
+    await watcher.refresh();
+    const started = Date.now();
+    await watcher.refresh();
+    assert.ok(Date.now() - started >= 15, 'the change is re-checked after the debounce delay');
+    assert.equal(calls, 3);
+    assert.deepEqual(seen, []);
+    assert.equal(watcher.tree!.comPortMap.has('COM9'), true);
+});
+
+test('a change still present after the debounce window is reported once', async () => {
+    const replays = [STATION, UNPLUGGED, UNPLUGGED];
+    let calls = 0;
+    const watcher = new USBTreeWatcher({ debounce: 20, source: () => buildUSBTree({ replay: replays[calls++] ?? UNPLUGGED }) });
+    const seen: string[] = [];
+    watcher.on('detached', e => seen.push(`detached ${e.portChain}`));
+
+    await watcher.refresh();
+    await watcher.refresh();
+    assert.equal(calls, 3);
+    assert.deepEqual(seen, ['detached 1-4']);
+});